@@ -0,0 +1,2 @@
+#!/usr/bin/env node
+require('../dist/es5/cli').main();
@@ -1,5 +1,61 @@
+/**
+ * Phases an exchange goes through.
+ * - transferring: payload is being sent to the device
+ * - awaitingConfirmation: payload was sent, waiting for the device answer (ex: user confirming on device)
+ * - completed: the device answered
+ * - failed: the exchange failed, was cancelled or timed out. See error.
+ */
+export type ProgressPhase = 'transferring' | 'awaitingConfirmation' | 'completed' | 'failed';
+
+/**
+ * Progress of an exchange.
+ */
+export interface IProgressEvent {
+  phase: ProgressPhase;
+  /**
+   * Size of the whole payload.
+   */
+  totalBytes: number;
+  /**
+   * Bytes acknowledged by the device so far.
+   */
+  bytesSent: number;
+  /**
+   * Index (0 based) of the last acknowledged chunk. -1 if no chunk was acknowledged yet.
+   */
+  chunkIndex: number;
+  chunkCount: number;
+  /**
+   * Percentage (0-100) of bytes acknowledged.
+   */
+  percentage: number;
+  /**
+   * Attempt number. Greater than 1 if the comm flow was restarted.
+   */
+  attempt: number;
+  /**
+   * Cause of the failure when phase is failed.
+   */
+  error?: Error;
+}
+
+/**
+ * Progress listener. It can be set on CommHandler.progressListener or passed per call.
+ */
 export interface IProgressListener {
-  onStart(): void;
-  onChunkProcessed(chunk: Buffer): void;
-  onEnd(): void;
+  onStart?(): void;
+  onChunkProcessed?(chunk: Buffer): void;
+  onEnd?(): void;
+  /**
+   * Called before the comm flow gets restarted after a recoverable failure (ex: CRC mismatch).
+   * @param {number} attempt the attempt about to start (2 for the first retry)
+   * @param {Error} error the error that caused the retry
+   * @param {number} delay ms waited before restarting
+   */
+  onRetry?(attempt: number, error: Error, delay: number): void;
+  /**
+   * Called whenever the progress of the exchange changes.
+   * @param {IProgressEvent} event
+   */
+  onProgress?(event: IProgressEvent): void;
 }
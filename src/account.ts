@@ -1,4 +1,6 @@
 import * as bip32path from 'bip32-path';
+import { coinRegistry, ICoinDefinition } from './coinRegistry';
+import { UnknownCoinError } from './errors';
 
 /**
  * Class to specify An account used to query the ledger.
@@ -18,13 +20,61 @@ export interface ILedgerAccount {
   derivePath(): Buffer;
 }
 
+const HARDENED = 0x80000000;
+
+/**
+ * Maximum number of path levels the ledger app accepts.
+ */
+export const MAX_PATH_DEPTH = 10;
+
 /**
  * Defines an Account to be used when communicating with ledger
  */
 export class LedgerAccount implements ILedgerAccount {
+  /**
+   * Parses a bip32 path string such as m/44'/134'/0'
+   * @param {string} path
+   * @returns {LedgerAccount}
+   */
+  public static fromString(path: string): LedgerAccount {
+    if (typeof(path) !== 'string') {
+      throw new Error('Path must be a string');
+    }
+    const levels = path.replace(/^m\//i, '').split('/');
+    if (!levels.every((level) => /^[0-9]+['hH]?$/.test(level))) {
+      throw new Error(`Invalid path ${path}`);
+    }
+    return LedgerAccount.fromPathArray(bip32path.fromString(path).toPathArray());
+  }
+
+  /**
+   * Decodes a bip32 path buffer (as returned by derivePath) back into an account.
+   * @param {Buffer} buf
+   * @returns {LedgerAccount}
+   */
+  public static fromBuffer(buf: Buffer): LedgerAccount {
+    if (!Buffer.isBuffer(buf) || buf.length === 0 || buf.length % 4 !== 0) {
+      throw new Error('Path buffer length must be a multiple of 4');
+    }
+    const pathArray: number[] = [];
+    for (let i = 0; i < buf.length; i += 4) {
+      pathArray.push(buf.readUInt32BE(i));
+    }
+    return LedgerAccount.fromPathArray(pathArray);
+  }
+
+  private static fromPathArray(pathArray: number[]): LedgerAccount {
+    if (pathArray.length < 1 || pathArray.length > MAX_PATH_DEPTH) {
+      throw new Error(`Path depth must be between 1 and ${MAX_PATH_DEPTH}`);
+    }
+    const acc = new LedgerAccount();
+    acc._path = pathArray.slice();
+    return acc;
+  }
+
   // tslint:disable variable-name
-  private _account: number   = 0;
-  private _coinIndex: SupportedCoin = SupportedCoin.LISK; // LISK
+  // 44'/coin'/account' by default.
+  private _path: number[] = [44 + HARDENED, SupportedCoin.LISK + HARDENED, HARDENED];
 
   // tslint:enable variable-name
 
@@ -35,37 +85,97 @@ export class LedgerAccount implements ILedgerAccount {
    */
   public account(newAccount: number): this {
     this.assertValidPath(newAccount);
-    this._account = newAccount;
-    return this;
+    return this.setLevel(2, newAccount, true);
   }
 
   /**
-   * Specify the coin index.
+   * Specify the coin index. Coins registered in the coinRegistry can also be referenced by name.
    * @see https://github.com/satoshilabs/slips/blob/master/slip-0044.md
+   * @param {SupportedCoin | number | string} newIndex slip44 index or registered coin name
+   * @returns {this}
+   */
+  public coinIndex(newIndex: SupportedCoin | number | string): this {
+    let idx = newIndex as number;
+    if (typeof(newIndex) === 'string') {
+      const coin = coinRegistry.get(newIndex);
+      if (!coin) {
+        throw new UnknownCoinError(newIndex);
+      }
+      idx = coin.slip44;
+    }
+    this.assertValidPath(idx);
+    return this.setLevel(1, idx, true);
+  }
+
+  /**
+   * Returns the coin definition matching the coin index of this account.
+   * @returns {ICoinDefinition} the coin or undefined if not registered.
+   */
+  public coin(): ICoinDefinition {
+    return this._path.length > 1 ? coinRegistry.get(this._path[1] - HARDENED) : undefined;
+  }
+
+  /**
+   * Specify the change level (4th level of the path).
+   * @param {number} newChange
+   * @param {boolean} hardened defaults to true
+   * @returns {this}
+   */
+  public change(newChange: number, hardened: boolean = true): this {
+    this.assertValidPath(newChange);
+    return this.setLevel(3, newChange, hardened);
+  }
+
+  /**
+   * Specify the address index level (5th level of the path). change must be set before.
    * @param {number} newIndex
+   * @param {boolean} hardened defaults to true
    * @returns {this}
    */
-  public coinIndex(newIndex: SupportedCoin): this {
+  public addressIndex(newIndex: number, hardened: boolean = true): this {
     this.assertValidPath(newIndex);
-    this._coinIndex = newIndex;
-    return this;
+    return this.setLevel(4, newIndex, hardened);
   }
 
   /**
-   * Derive the path using hardened entries.
+   * Returns the path as array of numbers (hardened levels have the 0x80000000 bit set).
+   * @returns {number[]}
+   */
+  public toPathArray(): number[] {
+    return this._path.slice();
+  }
+
+  /**
+   * Formats the path as string (ex: m/44'/134'/0')
+   * @returns {string}
+   */
+  public toString(): string {
+    return bip32path.fromPathArray(this._path).toString();
+  }
+
+  /**
+   * Derive the path buffer.
    * @returns {Buffer} defines the path in buffer form.
    */
   public derivePath(): Buffer {
-    const pathArray: number[] = bip32path.fromString(`44'/${this._coinIndex}'/${this._account}'`)
-      .toPathArray();
-
-    const retBuf = Buffer.alloc(pathArray.length * 4);
-    pathArray.forEach((r, idx) => retBuf.writeUInt32BE(r, idx * 4));
+    const retBuf = Buffer.alloc(this._path.length * 4);
+    this._path.forEach((r, idx) => retBuf.writeUInt32BE(r, idx * 4));
     return retBuf;
   }
 
+  private setLevel(level: number, value: number, hardened: boolean): this {
+    if (level > this._path.length) {
+      throw new Error(`Cannot set level ${level + 1} of a path with depth ${this._path.length}`);
+    }
+    if (level >= MAX_PATH_DEPTH) {
+      throw new Error(`Path depth cannot exceed ${MAX_PATH_DEPTH}`);
+    }
+    this._path[level] = hardened ? value + HARDENED : value;
+    return this;
+  }
+
   /**
-   * Asserts that the given param is a valid path (integer > 0)
+   * Asserts that the given param is a valid path (integer > 0 and <= 2^31-1)
    */
   private assertValidPath(n: number) {
     if (!Number.isInteger(n)) {
@@ -74,5 +184,8 @@ export class LedgerAccount implements ILedgerAccount {
     if (n < 0) {
       throw new Error('Param must be greater than zero');
     }
+    if (n >= HARDENED) {
+      throw new Error('Param must be less than 2^31');
+    }
   }
 }
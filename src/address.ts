@@ -0,0 +1,47 @@
+import { SupportedCoin } from './account';
+import { coinRegistry } from './coinRegistry';
+import { sha256 } from './crypto';
+import { UnknownCoinError } from './errors';
+import { bufferToDecimal, isHexOfSize } from './utils';
+
+/**
+ * Returns the address suffix used by the given coin as defined in the coinRegistry.
+ * @param {SupportedCoin | number} coin slip44 index
+ * @returns {string} the suffix or undefined if coin is unknown.
+ */
+export function coinAddressSuffix(coin: SupportedCoin | number): string {
+  const def = coinRegistry.get(coin);
+  return def ? def.addressSuffix : undefined;
+}
+
+/**
+ * Derives the address from a publicKey.
+ * sha256 of the publicKey, first 8 bytes reversed as a decimal number followed by the coin suffix.
+ * @param {string | Buffer} publicKey publicKey (hex or buffer)
+ * @param {SupportedCoin | number | string} coin registered coin slip44 index or raw address suffix.
+ * Throws UnknownCoinError if the slip44 index is not registered.
+ * @returns {string} the address (ex: 15610359283786884938L)
+ */
+export function deriveAddress(publicKey: string | Buffer,
+                              coin: SupportedCoin | number | string = SupportedCoin.LISK): string {
+  let pubBuf: Buffer;
+  if (Buffer.isBuffer(publicKey)) {
+    pubBuf = publicKey;
+  } else if (isHexOfSize(publicKey, 32)) {
+    pubBuf = Buffer.from(publicKey, 'hex');
+  }
+  if (!pubBuf || pubBuf.length !== 32) {
+    throw new Error('publicKey must be 32 bytes long');
+  }
+  const suffix = typeof(coin) === 'string' ? coin : coinAddressSuffix(coin);
+  if (typeof(suffix) === 'undefined') {
+    throw new UnknownCoinError(coin);
+  }
+
+  const hash = sha256(pubBuf);
+  const temp = Buffer.alloc(8);
+  for (let i = 0; i < 8; i++) {
+    temp[i] = hash[7 - i];
+  }
+  return `${bufferToDecimal(temp)}${suffix}`;
+}
@@ -0,0 +1,127 @@
+import { DEFAULT_LIMITS, ILedgerLimits, versionLimits } from './limits';
+
+/**
+ * Parsed semantic version.
+ */
+export interface ISemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /**
+   * Pre-release identifier (ex: beta.1 of 1.1.0-beta.1)
+   */
+  prerelease?: string;
+}
+
+/**
+ * Range of versions. min is inclusive, max is exclusive. Both are optional.
+ */
+export interface IVersionRange {
+  min?: string;
+  max?: string;
+}
+
+/**
+ * Commands understood by the ledger app.
+ */
+export type AppCommand = 'getPubKey' | 'signTX' | 'signMSG' | 'ping' | 'version';
+
+/**
+ * Commands and limits supported by app versions starting from minVersion.
+ */
+export interface IAppCapabilities {
+  minVersion: string;
+  commands: AppCommand[];
+  limits: Partial<ILedgerLimits>;
+}
+
+/**
+ * Capability table. Each app version uses the entry with the highest minVersion not greater than it.
+ * Limits of 1.0.0 are the ones enforced by the device: payloads above 2500 bytes fail with 0x6a84 and
+ * prefixed messages above 1000 bytes with 0x6a80 (see the comm_errors and Messages integration tests).
+ */
+export const appCapabilities: IAppCapabilities[] = [
+  {
+    commands  : ['getPubKey', 'signTX', 'signMSG', 'ping', 'version'],
+    limits    : {
+      maxMessageSize: 1000,
+      maxPayloadSize: 2500,
+    },
+    minVersion: '1.0.0',
+  },
+];
+
+/**
+ * Parses a x.y.z[-prerelease] version.
+ * @param {string} version
+ * @returns {ISemVer}
+ */
+export function parseVersion(version: string): ISemVer {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?$/.exec(String(version).trim());
+  if (!match) {
+    throw new Error(`Invalid version ${version}`);
+  }
+  const parsed: ISemVer = {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2], 10),
+    patch: parseInt(match[3], 10),
+  };
+  if (match[4]) {
+    parsed.prerelease = match[4];
+  }
+  return parsed;
+}
+
+/**
+ * Compares two versions. Pre-releases come before the corresponding release.
+ * @param {string | ISemVer} a
+ * @param {string | ISemVer} b
+ * @returns {number} negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareVersions(a: string | ISemVer, b: string | ISemVer): number {
+  const va = typeof(a) === 'string' ? parseVersion(a) : a;
+  const vb = typeof(b) === 'string' ? parseVersion(b) : b;
+  const diff = va.major - vb.major || va.minor - vb.minor || va.patch - vb.patch;
+  if (diff !== 0 || va.prerelease === vb.prerelease) {
+    return diff;
+  }
+  if (!va.prerelease || !vb.prerelease) {
+    return va.prerelease ? -1 : 1;
+  }
+  return va.prerelease < vb.prerelease ? -1 : 1;
+}
+
+/**
+ * @param {string | ISemVer} version
+ * @param {IVersionRange} range
+ * @returns {boolean} true if version is within range.
+ */
+export function satisfiesRange(version: string | ISemVer, range: IVersionRange): boolean {
+  return (!range.min || compareVersions(version, range.min) >= 0)
+    && (!range.max || compareVersions(version, range.max) < 0);
+}
+
+/**
+ * Returns the commands and limits supported by the given app version.
+ * Limits also include the overrides defined in versionLimits.
+ * @param {string} version app version as returned by DposLedger.version
+ * @returns {{commands: AppCommand[], limits: ILedgerLimits}} empty commands if version predates the table.
+ */
+export function capabilitiesFor(version: string): { commands: AppCommand[], limits: ILedgerLimits } {
+  const entry = appCapabilities
+    .filter((c) => compareVersions(c.minVersion, version) <= 0)
+    .sort((c1, c2) => compareVersions(c2.minVersion, c1.minVersion))[0];
+  return {
+    commands: entry ? entry.commands.slice() : [],
+    limits  : { ...DEFAULT_LIMITS, ...(entry ? entry.limits : {}), ...(versionLimits[version] || {}) },
+  };
+}
+
+/**
+ * Returns the limits of the given app version.
+ * @param {string} version app version as returned by DposLedger.version
+ * @returns {ILedgerLimits}
+ */
+export function limitsForVersion(version: string): ILedgerLimits {
+  return capabilitiesFor(version).limits;
+}
@@ -0,0 +1,295 @@
+import { LedgerAccount } from './account';
+import {
+  BRIDGE_CANCEL_METHOD,
+  BridgeErrorCode,
+  BridgeMethod,
+  IBridgeParams,
+  IBridgeProgressMessage,
+  IBridgeRpcError,
+  IBridgeRpcResponse
+} from './bridgeProtocol';
+import { ICommandOptions } from './commHandler';
+import { BridgeError, mapTransportError, OperationCancelledError } from './errors';
+import { IProgressListener } from './IProgressListener';
+import { serializeTransaction, Transaction } from './transaction';
+
+/**
+ * Minimal fetch signature used by BridgeClient.
+ */
+export type BridgeFetch = (url: string, init: { method: string, headers: { [name: string]: string }, body: string })
+  => Promise<{ status: number, json(): Promise<any> }>;
+
+/**
+ * Minimal WebSocket interface used by BridgeClient. Browser WebSockets and the ws package satisfy it.
+ */
+export interface IBridgeWebSocket {
+  onopen: (event: any) => void;
+  onmessage: (event: { data: any }) => void;
+  onerror: (event: any) => void;
+  onclose: (event: any) => void;
+  close(): void;
+}
+
+export interface IBridgeClientOptions {
+  /**
+   * fetch implementation. Defaults to the global fetch.
+   */
+  fetch?: BridgeFetch;
+  /**
+   * Creates the WebSocket progress events are received from. Defaults to the global WebSocket.
+   */
+  createWebSocket?: (url: string) => IBridgeWebSocket;
+  /**
+   * Extra headers sent along with every request (ex: Origin when running outside of a browser).
+   */
+  headers?: { [name: string]: string };
+  /**
+   * Path of the bridge JSON-RPC endpoint. Defaults to /rpc
+   */
+  rpcPath?: string;
+  /**
+   * Path of the bridge events WebSocket. Defaults to /events
+   */
+  eventsPath?: string;
+}
+
+/**
+ * Talks with a BridgeServer exposing the same API of DposLedger, without the need of a transport.
+ * Device errors are rethrown as the same typed errors DposLedger throws (ex: UserRejectedError), other failures
+ * as BridgeError. Progress listeners passed per call are notified through onProgress only.
+ * Aborting the signal of a call rejects it straight away and asks the bridge to cancel it as well.
+ * @example
+ * ```javascript
+ *
+ * const client = new BridgeClient('http://127.0.0.1:8189');
+ * const { address } = await client.getPubKey(new LedgerAccount());
+ * const signature = await client.signMSG(new LedgerAccount(), 'vekexasia rules', {
+ *   progressListener: { onProgress: (event) => console.log(event.phase) },
+ * });
+ * ```
+ */
+export class BridgeClient {
+  private nextId: number                                 = 1;
+  private idPrefix: string                               = `${Date.now().toString(36)}-`;
+  private listeners: { [id: string]: IProgressListener } = {};
+  private socket: IBridgeWebSocket                       = null;
+  private socketReady: Promise<void>                     = null;
+  private options: IBridgeClientOptions;
+
+  /**
+   * @param {string} baseUrl bridge url (ex: http://127.0.0.1:8189)
+   * @param {IBridgeClientOptions} options
+   */
+  constructor(private baseUrl: string, options: IBridgeClientOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.options = {
+      eventsPath: '/events',
+      headers   : {},
+      rpcPath   : '/rpc',
+      ...options,
+    };
+  }
+
+  /**
+   * See DposLedger.getPubKey
+   * @param {LedgerAccount | string} account or bip32 path string
+   * @param {boolean} showOnLedger
+   * @param {boolean} verifyAddress
+   * @param {ICommandOptions} opts
+   * @returns {Promise<{publicKey: string, address: string}>}
+   */
+  public getPubKey(account: LedgerAccount | string,
+                   showOnLedger: boolean = false,
+                   verifyAddress: boolean = false,
+                   opts: ICommandOptions = {}): Promise<{ publicKey: string, address: string }> {
+    return this.call('getPubKey', { path: pathOf(account), showOnLedger, verifyAddress }, opts);
+  }
+
+  /**
+   * See DposLedger.signTX. Transaction objects are serialized locally.
+   * @param {LedgerAccount | string} account or bip32 path string
+   * @param {Buffer | Transaction} tx
+   * @param {ICommandOptions} opts
+   * @returns {Promise<Buffer>} signature.
+   */
+  public async signTX(account: LedgerAccount | string, tx: Buffer | Transaction,
+                      opts: ICommandOptions = {}): Promise<Buffer> {
+    const bytes         = Buffer.isBuffer(tx) ? tx : serializeTransaction(tx);
+    const { signature } = await this.call('signTX', { path: pathOf(account), tx: bytes.toString('hex') }, opts);
+    return Buffer.from(signature, 'hex');
+  }
+
+  /**
+   * See DposLedger.signMSG
+   * @param {LedgerAccount | string} account or bip32 path string
+   * @param {string | Buffer} what
+   * @param {ICommandOptions} opts
+   * @returns {Promise<Buffer>} signature.
+   */
+  public async signMSG(account: LedgerAccount | string, what: string | Buffer,
+                       opts: ICommandOptions = {}): Promise<Buffer> {
+    const params        = typeof(what) === 'string' ?
+      { message: what } :
+      { hex: true, message: what.toString('hex') };
+    const { signature } = await this.call('signMSG', { path: pathOf(account), ...params }, opts);
+    return Buffer.from(signature, 'hex');
+  }
+
+  /**
+   * See DposLedger.version
+   * @param {ICommandOptions} opts
+   * @returns {Promise<{version: string, coinID: string}>}
+   */
+  public version(opts: ICommandOptions = {}): Promise<{ version: string, coinID: string }> {
+    return this.call('version', {}, opts);
+  }
+
+  /**
+   * See DposLedger.ping
+   * @param {ICommandOptions} opts
+   * @returns {Promise<void>}
+   */
+  public async ping(opts: ICommandOptions = {}): Promise<void> {
+    await this.call('ping', {}, opts);
+  }
+
+  /**
+   * Opens the events WebSocket. It's opened automatically by the first call having a progressListener.
+   * @returns {Promise<void>}
+   */
+  public connectEvents(): Promise<void> {
+    if (this.socketReady) {
+      return this.socketReady;
+    }
+    this.socketReady = new Promise<void>((resolve, reject) => {
+      const socket     = this.createWebSocket(`${this.baseUrl.replace(/^http/, 'ws')}${this.options.eventsPath}`);
+      socket.onopen    = () => resolve();
+      socket.onerror   = () => reject(new BridgeError('Cannot connect to the bridge events'));
+      socket.onclose   = () => {
+        if (this.socket === socket) {
+          this.socket      = null;
+          this.socketReady = null;
+        }
+      };
+      socket.onmessage = (event) => this.dispatch(event.data);
+      this.socket      = socket;
+    });
+    this.socketReady.catch(() => this.close());
+    return this.socketReady;
+  }
+
+  /**
+   * Closes the events WebSocket, if open.
+   */
+  public close(): void {
+    const socket     = this.socket;
+    this.socket      = null;
+    this.socketReady = null;
+    if (socket) {
+      socket.close();
+    }
+  }
+
+  private async call(method: BridgeMethod, params: IBridgeParams, opts: ICommandOptions): Promise<any> {
+    if (opts.signal && opts.signal.aborted) {
+      throw new OperationCancelledError();
+    }
+    const id = `${this.idPrefix}${this.nextId++}`;
+    if (opts.progressListener) {
+      await this.connectEvents();
+      this.listeners[id] = opts.progressListener;
+    }
+    const body = JSON.stringify({
+      id,
+      jsonrpc: '2.0',
+      method,
+      params : { ...params, confirmationTimeout: opts.confirmationTimeout, transferTimeout: opts.transferTimeout },
+    });
+    const cancel = () => this.post(JSON.stringify({
+      id     : `${this.idPrefix}${this.nextId++}`,
+      jsonrpc: '2.0',
+      method : BRIDGE_CANCEL_METHOD,
+      params : { id },
+    })).catch(() => void 0);
+    try {
+      const response: IBridgeRpcResponse = await withSignal(this.post(body), opts.signal, cancel);
+      if (response.error) {
+        throw toError(response.error);
+      }
+      return response.result;
+    } finally {
+      delete this.listeners[id];
+    }
+  }
+
+  private async post(body: string): Promise<IBridgeRpcResponse> {
+    const fetchFn = this.options.fetch || ((u, init) => (global as any).fetch(u, init));
+    const res     = await fetchFn(`${this.baseUrl}${this.options.rpcPath}`, {
+      body,
+      headers: { 'Content-Type': 'application/json', ...this.options.headers },
+      method : 'POST',
+    });
+    let response: IBridgeRpcResponse;
+    try {
+      response = await res.json();
+    } catch (e) {
+      throw new BridgeError(`Bridge answered with HTTP status ${res.status}`);
+    }
+    if (!response || (typeof(response.error) !== 'object' && res.status !== 200)) {
+      throw new BridgeError(`Bridge answered with HTTP status ${res.status}`);
+    }
+    return response;
+  }
+
+  private createWebSocket(wsUrl: string): IBridgeWebSocket {
+    if (this.options.createWebSocket) {
+      return this.options.createWebSocket(wsUrl);
+    }
+    return new (global as any).WebSocket(wsUrl);
+  }
+
+  private dispatch(data: any) {
+    let message: IBridgeProgressMessage;
+    try {
+      message = JSON.parse(String(data));
+    } catch (e) {
+      return;
+    }
+    const listener = message && this.listeners[message.id];
+    if (!listener || typeof(listener.onProgress) !== 'function') {
+      return;
+    }
+    const { error, ...progress } = message.progress;
+    listener.onProgress(typeof(error) === 'string' ? { ...progress, error: new Error(error) } : progress);
+  }
+}
+
+function pathOf(account: LedgerAccount | string): string {
+  return typeof(account) === 'string' ? account : account.toString();
+}
+
+/**
+ * Rebuilds device errors from their status word so they can be handled as the DposLedger ones.
+ */
+function toError(error: IBridgeRpcError): Error {
+  if (error.code === BridgeErrorCode.LEDGER_ERROR && error.data && typeof(error.data.statusCode) === 'number') {
+    return mapTransportError({ statusCode: error.data.statusCode });
+  }
+  return new BridgeError(error.message, error.code, error.data ? error.data.name : undefined);
+}
+
+function withSignal<T>(promise: Promise<T>, signal: ICommandOptions['signal'], onCancel: () => void): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      reject(new OperationCancelledError());
+      onCancel();
+    };
+    signal.addEventListener('abort', onAbort);
+    promise
+      .then(resolve, reject)
+      .then(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,89 @@
+import { IProgressEvent } from './IProgressListener';
+
+/**
+ * DposLedger methods exposed by the bridge.
+ */
+export type BridgeMethod = 'getPubKey' | 'signTX' | 'signMSG' | 'version' | 'ping';
+
+export const BRIDGE_METHODS: BridgeMethod[] = ['getPubKey', 'signTX', 'signMSG', 'version', 'ping'];
+
+/**
+ * Aborts a pending request issued by the same origin. It's neither confirmed nor forwarded to the device.
+ * Note that a prompt already shown on the device cannot be dismissed remotely.
+ */
+export const BRIDGE_CANCEL_METHOD = 'cancel';
+
+/**
+ * JSON-RPC error codes returned by the bridge.
+ */
+export enum BridgeErrorCode {
+  PARSE_ERROR      = -32700,
+  INVALID_REQUEST  = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS   = -32602,
+  /**
+   * The device or DposLedger failed. error.data holds the name and statusCode of the original error.
+   */
+  LEDGER_ERROR     = -32000,
+  /**
+   * Origin is not allowed or the confirmation hook refused the request.
+   */
+  REFUSED          = -32001,
+}
+
+/**
+ * Params of the bridge methods. Accounts are bip32 path strings (ex: 44'/134'/0').
+ * - getPubKey: { path, showOnLedger?, verifyAddress? } => { publicKey, address }
+ * - signTX: { path, tx } where tx is the hex encoded transaction bytes or a transaction object => { signature }
+ * - signMSG: { path, message, hex? } => { signature }
+ * - version: {} => { version, coinID }
+ * - ping: {} => null
+ * - cancel: { id } => true if the request with the given id was pending
+ * Every method but cancel also accepts transferTimeout and confirmationTimeout.
+ */
+export interface IBridgeParams {
+  path?: string;
+  showOnLedger?: boolean;
+  verifyAddress?: boolean;
+  tx?: any;
+  message?: string;
+  /**
+   * message is hex encoded.
+   */
+  hex?: boolean;
+  transferTimeout?: number;
+  confirmationTimeout?: number;
+  /**
+   * id of the request to cancel.
+   */
+  id?: string | number;
+}
+
+export interface IBridgeRpcRequest {
+  jsonrpc: '2.0';
+  id: string | number;
+  method: BridgeMethod | typeof BRIDGE_CANCEL_METHOD;
+  params?: IBridgeParams;
+}
+
+export interface IBridgeRpcError {
+  code: BridgeErrorCode;
+  message: string;
+  data?: { name: string, statusCode?: number };
+}
+
+export interface IBridgeRpcResponse {
+  jsonrpc: '2.0';
+  id: string | number;
+  result?: any;
+  error?: IBridgeRpcError;
+}
+
+/**
+ * Message streamed over the bridge WebSocket. id is the one of the JSON-RPC request the progress refers to.
+ * progress.error is replaced by its message.
+ */
+export interface IBridgeProgressMessage {
+  id: string | number;
+  progress: Pick<IProgressEvent, Exclude<keyof IProgressEvent, 'error'>> & { error?: string };
+}
@@ -0,0 +1,370 @@
+import * as http from 'http';
+import * as url from 'url';
+import * as WebSocket from 'ws';
+import { LedgerAccount } from './account';
+import {
+  BRIDGE_CANCEL_METHOD,
+  BRIDGE_METHODS,
+  BridgeErrorCode,
+  BridgeMethod,
+  IBridgeParams,
+  IBridgeProgressMessage,
+  IBridgeRpcRequest,
+  IBridgeRpcResponse
+} from './bridgeProtocol';
+import { CancellationController, IAbortSignal } from './cancellation';
+import { ICommandOptions } from './commHandler';
+import { BridgeError } from './errors';
+import { IProgressEvent } from './IProgressListener';
+import { DposLedger } from './library';
+import { Transaction } from './transaction';
+
+/**
+ * A request about to be forwarded to the device.
+ */
+export interface IBridgeRequest {
+  /**
+   * Origin header of the request. null if missing.
+   */
+  origin: string;
+  method: BridgeMethod;
+  params: IBridgeParams;
+}
+
+export interface IBridgeServerOptions {
+  /**
+   * Origins allowed to use the bridge (ex: ['https://wallet.example.com']). '*' allows any origin.
+   * Requests without an Origin header are refused unless '*' is listed.
+   */
+  allowedOrigins: string[];
+  /**
+   * Called before each request gets forwarded to the device. Resolve false to refuse it (ex: after asking the user).
+   */
+  confirm?: (request: IBridgeRequest) => boolean | Promise<boolean>;
+  /**
+   * Path of the JSON-RPC endpoint. Defaults to /rpc
+   */
+  rpcPath?: string;
+  /**
+   * Path of the WebSocket streaming progress events. Defaults to /events
+   */
+  eventsPath?: string;
+  /**
+   * Max size in bytes of a request body. Defaults to 262144
+   */
+  maxBodySize?: number;
+}
+
+/**
+ * Subset of the ws package WebSocket used by the bridge.
+ */
+interface IEventSocket {
+  readyState: number;
+  send(data: string): void;
+  on(event: 'close', listener: () => void): void;
+}
+
+/**
+ * Subset of the ws package WebSocket.Server used by the bridge.
+ */
+interface IEventSocketServer {
+  on(event: 'connection', listener: (socket: IEventSocket, req: http.IncomingMessage) => void): void;
+  close(callback: () => void): void;
+}
+
+/**
+ * Exposes a DposLedger instance to web apps that can't reach the device (ex: browsers without U2F/WebUSB).
+ * getPubKey, signTX, signMSG, version and ping are served as JSON-RPC 2.0 over HTTP POST on rpcPath while
+ * progress events are streamed on the eventsPath WebSocket. See bridgeProtocol for the message formats and
+ * BridgeClient for the matching client. Pending requests can be aborted through the cancel method.
+ * Node.js only: import it from dpos-ledger-api/dist/es5/bridgeServer
+ * @example
+ * ```javascript
+ *
+ * const bridge = new BridgeServer(new DposLedger(new CommHandler(transport)), {
+ *   allowedOrigins: ['https://wallet.example.com'],
+ *   confirm       : ({ origin, method }) => askUser(`${origin} wants to call ${method}`),
+ * });
+ * const port = await bridge.listen(8189);
+ * ```
+ */
+export class BridgeServer {
+  private server: http.Server;
+  private wss: IEventSocketServer;
+  private sockets: Array<{ socket: IEventSocket, origin: string }> = [];
+  private pending: { [key: string]: CancellationController }     = {};
+  private options: IBridgeServerOptions;
+
+  /**
+   * @param {DposLedger} ledger instance requests are forwarded to.
+   * @param {IBridgeServerOptions} options
+   */
+  constructor(private ledger: DposLedger, options: IBridgeServerOptions) {
+    this.options = {
+      eventsPath : '/events',
+      maxBodySize: 262144,
+      rpcPath    : '/rpc',
+      ...options,
+    };
+    this.server  = http.createServer((req, res) => this.handleHttp(req, res));
+    this.wss     = new WebSocket.Server({
+      path        : this.options.eventsPath,
+      server      : this.server,
+      verifyClient: (info) => this.isAllowed(info.origin),
+    });
+    this.wss.on('connection', (socket, req) => {
+      const entry = { socket, origin: this.originOf(req) };
+      this.sockets.push(entry);
+      socket.on('close', () => this.sockets = this.sockets.filter((s) => s !== entry));
+    });
+  }
+
+  /**
+   * Starts listening. Binds to localhost by default.
+   * @param {number} port 0 picks a random free port.
+   * @param {string} host
+   * @returns {Promise<number>} the port the bridge is listening on.
+   */
+  public listen(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+    return new Promise<number>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.removeListener('error', reject);
+        resolve(this.server.address().port);
+      });
+    });
+  }
+
+  /**
+   * Closes the WebSockets and stops listening.
+   * @returns {Promise<void>}
+   */
+  public close(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      this.wss.close(() => this.server.close(() => resolve()));
+    });
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse) {
+    const origin = this.originOf(req);
+    if (this.isAllowed(origin)) {
+      res.setHeader('Access-Control-Allow-Origin', origin === null ? '*' : origin);
+      res.setHeader('Vary', 'Origin');
+    }
+    if (url.parse(req.url).pathname !== this.options.rpcPath) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    if (!this.isAllowed(origin)) {
+      this.respond(res, 403, errorResponse(null, BridgeErrorCode.REFUSED, `Origin ${origin} is not allowed`));
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Methods': 'POST',
+      });
+      res.end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST, OPTIONS' });
+      res.end();
+      return;
+    }
+
+    let body     = '';
+    let tooLarge = false;
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      if (tooLarge) {
+        return;
+      }
+      body += chunk;
+      if (Buffer.byteLength(body) > this.options.maxBodySize) {
+        // Stop reading: the rest of the body is dropped along with the connection.
+        tooLarge = true;
+        body     = '';
+        req.pause();
+        res.setHeader('Connection', 'close');
+        res.on('finish', () => req.destroy());
+        this.respond(res, 413, errorResponse(null, BridgeErrorCode.INVALID_REQUEST, 'Request body is too large'));
+      }
+    });
+    req.on('end', async () => {
+      if (!tooLarge) {
+        this.respond(res, 200, await this.process(body, origin));
+      }
+    });
+  }
+
+  private async process(body: string, origin: string): Promise<IBridgeRpcResponse> {
+    let request: IBridgeRpcRequest;
+    try {
+      request = JSON.parse(body);
+    } catch (e) {
+      return errorResponse(null, BridgeErrorCode.PARSE_ERROR, 'Parse error');
+    }
+    if (!request || typeof(request) !== 'object' || request.jsonrpc !== '2.0' ||
+      (typeof(request.id) !== 'string' && typeof(request.id) !== 'number') || typeof(request.method) !== 'string') {
+      return errorResponse(null, BridgeErrorCode.INVALID_REQUEST, 'Invalid request');
+    }
+    const { id, method } = request;
+    const params         = typeof(request.params) === 'undefined' ? {} : request.params;
+    if (method !== BRIDGE_CANCEL_METHOD && BRIDGE_METHODS.indexOf(method) === -1) {
+      return errorResponse(id, BridgeErrorCode.METHOD_NOT_FOUND, `Method ${method} not found`);
+    }
+    if (params === null || typeof(params) !== 'object') {
+      return errorResponse(id, BridgeErrorCode.INVALID_PARAMS, 'params must be an object');
+    }
+    if (method === BRIDGE_CANCEL_METHOD) {
+      return { id, jsonrpc: '2.0', result: this.cancel(origin, params.id) };
+    }
+
+    // Registered before asking confirmation so that the request can be cancelled while waiting for it.
+    const key        = pendingKey(origin, id);
+    const controller = new CancellationController();
+    this.pending[key] = controller;
+    try {
+      try {
+        if (this.options.confirm && !(await this.options.confirm({ method, origin, params }))) {
+          return errorResponse(id, BridgeErrorCode.REFUSED, 'Request was refused');
+        }
+      } catch (err) {
+        return errorResponse(id, BridgeErrorCode.REFUSED, `Request was refused: ${err.message}`);
+      }
+      return { id, jsonrpc: '2.0', result: await this.call(id, origin, method, params, controller.signal) };
+    } catch (err) {
+      if (err instanceof BridgeError && err.code === BridgeErrorCode.INVALID_PARAMS) {
+        return errorResponse(id, BridgeErrorCode.INVALID_PARAMS, err.message);
+      }
+      return errorResponse(id, BridgeErrorCode.LEDGER_ERROR, err.message, {
+        name      : err.name || 'Error',
+        statusCode: err.statusCode,
+      });
+    } finally {
+      if (this.pending[key] === controller) {
+        delete this.pending[key];
+      }
+    }
+  }
+
+  /**
+   * Aborts the pending request with the given id, if issued by the same origin.
+   * @returns {boolean} true if the request was pending.
+   */
+  private cancel(origin: string, id: string | number): boolean {
+    const controller = this.pending[pendingKey(origin, id)];
+    if (!controller) {
+      return false;
+    }
+    controller.abort();
+    return true;
+  }
+
+  private async call(id: string | number, origin: string, method: BridgeMethod, params: IBridgeParams,
+                     signal: IAbortSignal) {
+    const opts: ICommandOptions = {
+      confirmationTimeout: params.confirmationTimeout,
+      progressListener   : {
+        onProgress: (event) => this.broadcast(origin, { id, progress: serializeProgress(event) }),
+      },
+      signal,
+      transferTimeout    : params.transferTimeout,
+    };
+    switch (method) {
+      case 'getPubKey':
+        return this.ledger.getPubKey(accountOf(params), !!params.showOnLedger, !!params.verifyAddress, opts);
+      case 'signTX': {
+        let tx: Buffer | Transaction;
+        if (typeof(params.tx) === 'string') {
+          tx = hexToBuffer('tx', params.tx);
+        } else if (params.tx !== null && typeof(params.tx) === 'object') {
+          tx = params.tx;
+        } else {
+          throw invalidParams('tx must be a hex string or a transaction object');
+        }
+        const signature = await this.ledger.signTX(accountOf(params), tx, opts);
+        return { signature: signature.toString('hex') };
+      }
+      case 'signMSG': {
+        if (typeof(params.message) !== 'string') {
+          throw invalidParams('message must be a string');
+        }
+        const message   = params.hex ? hexToBuffer('message', params.message) : params.message;
+        const signature = await this.ledger.signMSG(accountOf(params), message, opts);
+        return { signature: signature.toString('hex') };
+      }
+      case 'version':
+        return this.ledger.version(opts);
+      case 'ping':
+        await this.ledger.ping(opts);
+        return null;
+    }
+  }
+
+  /**
+   * Sends a progress message to the WebSockets opened by the origin that issued the request.
+   */
+  private broadcast(origin: string, message: IBridgeProgressMessage) {
+    const data = JSON.stringify(message);
+    this.sockets
+      .filter((s) => s.origin === origin && s.socket.readyState === WebSocket.OPEN)
+      .forEach((s) => s.socket.send(data));
+  }
+
+  private respond(res: http.ServerResponse, status: number, response: IBridgeRpcResponse) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response));
+  }
+
+  private originOf(req: http.IncomingMessage): string {
+    const origin = req.headers.origin;
+    return typeof(origin) === 'string' ? origin : null;
+  }
+
+  private isAllowed(origin: string): boolean {
+    const allowed = this.options.allowedOrigins;
+    return allowed.indexOf('*') !== -1 || (origin !== null && allowed.indexOf(origin) !== -1);
+  }
+}
+
+function errorResponse(id: string | number, code: BridgeErrorCode, message: string,
+                       data?: { name: string, statusCode?: number }): IBridgeRpcResponse {
+  return { error: { code, data, message }, id, jsonrpc: '2.0' };
+}
+
+function pendingKey(origin: string, id: string | number): string {
+  return JSON.stringify([origin, id]);
+}
+
+function serializeProgress(event: IProgressEvent): IBridgeProgressMessage['progress'] {
+  const { error, ...progress } = event;
+  return error ? { ...progress, error: error.message } : progress;
+}
+
+/**
+ * Error for params not matching the requested method.
+ */
+function invalidParams(message: string): BridgeError {
+  return new BridgeError(message, BridgeErrorCode.INVALID_PARAMS);
+}
+
+function accountOf(params: IBridgeParams): LedgerAccount {
+  if (typeof(params.path) !== 'string') {
+    throw invalidParams('path must be a bip32 path string');
+  }
+  try {
+    return LedgerAccount.fromString(params.path);
+  } catch (e) {
+    throw invalidParams(`Invalid path: ${e.message}`);
+  }
+}
+
+function hexToBuffer(name: string, hex: string): Buffer {
+  if (!/^([0-9a-f]{2})*$/i.test(hex)) {
+    throw invalidParams(`${name} must be hex encoded`);
+  }
+  return Buffer.from(hex, 'hex');
+}
@@ -0,0 +1,63 @@
+/**
+ * Minimal AbortSignal compatible interface.
+ * Native AbortSignal instances (browsers, node >= 15) satisfy it as well as CancellationController.signal.
+ */
+export interface IAbortSignal {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+/**
+ * AbortController-like utility for environments lacking a native one.
+ * @example
+ * ```javascript
+ *
+ * const controller = new CancellationController();
+ * setTimeout(() => controller.abort(), 30000);
+ * instance.signTX(account, tx, { signal: controller.signal })
+ *   .catch((err) => {
+ *     if (err instanceof OperationCancelledError) {
+ *       console.log('Aborted');
+ *     }
+ *   });
+ * ```
+ */
+export class CancellationController {
+  /**
+   * Signal to be passed to the cancellable operations.
+   */
+  public readonly signal: IAbortSignal;
+  private listeners: Array<() => void> = [];
+  private isAborted: boolean           = false;
+
+  constructor() {
+    const controller = this;
+    this.signal      = {
+      get aborted() {
+        return controller.isAborted;
+      },
+      addEventListener(type: 'abort', listener: () => void) {
+        if (controller.listeners.indexOf(listener) === -1) {
+          controller.listeners.push(listener);
+        }
+      },
+      removeEventListener(type: 'abort', listener: () => void) {
+        controller.listeners = controller.listeners.filter((l) => l !== listener);
+      },
+    };
+  }
+
+  /**
+   * Aborts the signal. Subsequent calls are no-ops.
+   */
+  public abort(): void {
+    if (this.isAborted) {
+      return;
+    }
+    this.isAborted = true;
+    const listeners = this.listeners;
+    this.listeners  = [];
+    listeners.forEach((l) => l());
+  }
+}
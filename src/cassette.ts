@@ -0,0 +1,54 @@
+import * as fs from 'fs';
+
+/**
+ * A single recorded APDU exchange.
+ */
+export interface ICassetteInteraction {
+  request: {
+    cla: number;
+    ins: number;
+    p1: number;
+    p2: number;
+    /**
+     * hex encoded data or null if no data was sent.
+     */
+    data: string;
+  };
+  /**
+   * hex encoded response. Not set if the transport threw.
+   */
+  response?: string;
+  /**
+   * error thrown by the transport.
+   */
+  error?: {
+    message: string;
+    statusCode?: number;
+  };
+}
+
+/**
+ * Recorded session.
+ */
+export interface ICassette {
+  version: 1;
+  interactions: ICassetteInteraction[];
+}
+
+/**
+ * Writes a cassette to file (NodeJS only).
+ * @param {string} file path
+ * @param {ICassette} cassette
+ */
+export function saveCassette(file: string, cassette: ICassette) {
+  fs.writeFileSync(file, JSON.stringify(cassette, null, 2));
+}
+
+/**
+ * Reads a cassette from file (NodeJS only).
+ * @param {string} file path
+ * @returns {ICassette}
+ */
+export function loadCassette(file: string): ICassette {
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
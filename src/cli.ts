@@ -0,0 +1,299 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as https from 'https';
+import { LedgerAccount, SupportedCoin } from './account';
+import { coinRegistry } from './coinRegistry';
+import { CommHandler } from './commHandler';
+import { discoverAccounts } from './discovery';
+import { ITransport } from './ledger';
+import { DposLedger } from './library';
+import { Transaction } from './transaction';
+
+/**
+ * Everything the CLI needs from the outside world. Inject it to run the CLI against a stub transport.
+ */
+export interface ICliContext {
+  createTransport: () => Promise<ITransport>;
+  stdout: (line: string) => void;
+  stderr: (line: string) => void;
+  /**
+   * Reads a utf8 file. Defaults to fs.readFileSync
+   */
+  readFile?: (path: string) => string;
+  /**
+   * GETs and parses a json document. Used by discover to query the node.
+   */
+  fetchJson?: (url: string) => Promise<any>;
+}
+
+interface IParsedArgs {
+  command: string;
+  positional: string[];
+  flags: { [name: string]: string | boolean };
+}
+
+/**
+ * Thrown on invalid command line usage.
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, UsageError.prototype);
+  }
+}
+
+const USAGE = [
+  'Usage: dpos-ledger <command> [options]',
+  '',
+  'Commands:',
+  '  pubkey                 prints publicKey and address. --show displays the address on the device,',
+  '                         --verify checks the address against the one derived locally',
+  '  sign-msg <message>     signs a message. --hex if message is hex encoded',
+  '  sign-tx <hex>          signs transaction bytes. Use --file <tx.json> to sign a transaction object',
+  '  version                prints app version and coinID',
+  '  ping                   checks the app is responding',
+  '  discover --node <url>  lists used accounts querying the given node. --gap <n> sets the gap limit',
+  '',
+  'Account options:',
+  '  --path <path>          bip32 path (ex: 44\'/134\'/0\')',
+  '  --coin <coin>          coin name or slip44 index. Defaults to lisk',
+  '  --account <n>          account index. Defaults to 0',
+  '',
+  'Output options:',
+  '  --json                 prints json',
+].join('\n');
+
+const BOOLEAN_FLAGS = ['show', 'verify', 'hex', 'json', 'help'];
+
+/**
+ * Runs the dpos-ledger CLI.
+ * @param {string[]} argv arguments (without node and script path)
+ * @param {ICliContext} ctx
+ * @returns {Promise<number>} exit code. 0 on success, 1 on failures, 2 on usage errors.
+ */
+export async function runCli(argv: string[], ctx: ICliContext): Promise<number> {
+  let args: IParsedArgs;
+  try {
+    args = parseArgs(argv);
+  } catch (err) {
+    ctx.stderr(`Error: ${err.message}`);
+    ctx.stderr(USAGE);
+    return 2;
+  }
+  if (args.command === null || args.flags.help) {
+    ctx.stdout(USAGE);
+    return args.command === null && !args.flags.help ? 2 : 0;
+  }
+
+  let transport: ITransport = null;
+  try {
+    // Arguments are validated before connecting to the device.
+    const command = prepareCommand(args, ctx);
+    transport     = await ctx.createTransport();
+    const result  = await command(new DposLedger(new CommHandler(transport)));
+    const lines   = args.flags.json ? [JSON.stringify(result)] : humanize(args.command, result);
+    lines.forEach((line) => ctx.stdout(line));
+    return 0;
+  } catch (err) {
+    ctx.stderr(`Error: ${err.message}`);
+    if (err instanceof UsageError) {
+      ctx.stderr(USAGE);
+      return 2;
+    }
+    return 1;
+  } finally {
+    if (transport && typeof(transport.close) === 'function') {
+      try {
+        await transport.close();
+      } catch (e) {
+        // Nothing left to do with the transport anyway.
+      }
+    }
+  }
+}
+
+/**
+ * Entry point of the dpos-ledger binary. Uses @ledgerhq/hw-transport-node-hid.
+ */
+export function main(): void {
+  const ctx: ICliContext = {
+    createTransport: () => {
+      let TransportNodeHid: any;
+      try {
+        TransportNodeHid = require('@ledgerhq/hw-transport-node-hid').default;
+      } catch (e) {
+        return Promise.reject(new Error('Please install @ledgerhq/hw-transport-node-hid to use dpos-ledger'));
+      }
+      return TransportNodeHid.create();
+    },
+    stderr         : (line) => process.stderr.write(`${line}\n`),
+    stdout         : (line) => process.stdout.write(`${line}\n`),
+  };
+  runCli(process.argv.slice(2), ctx)
+    .then((code) => process.exit(code));
+}
+
+/**
+ * Validates the arguments of the command, throwing UsageError if invalid, and returns the function running it.
+ */
+function prepareCommand(args: IParsedArgs, ctx: ICliContext): (ledger: DposLedger) => Promise<any> {
+  switch (args.command) {
+    case 'pubkey': {
+      const account = accountOf(args);
+      return (ledger) => ledger.getPubKey(account, !!args.flags.show, !!args.flags.verify);
+    }
+    case 'sign-msg': {
+      if (args.positional.length !== 1) {
+        throw new UsageError('sign-msg requires the message to sign');
+      }
+      const account = accountOf(args);
+      const message = args.flags.hex ? hexToBuffer(args.positional[0]) : args.positional[0];
+      return async (ledger) => {
+        const signature = await ledger.signMSG(account, message);
+        return { signature: signature.toString('hex') };
+      };
+    }
+    case 'sign-tx': {
+      let tx: Buffer | Transaction;
+      if (typeof(args.flags.file) === 'string') {
+        tx = JSON.parse((ctx.readFile || ((p) => fs.readFileSync(p, 'utf8')))(args.flags.file));
+      } else if (args.positional.length === 1) {
+        tx = hexToBuffer(args.positional[0]);
+      } else {
+        throw new UsageError('sign-tx requires transaction bytes or --file');
+      }
+      const account = accountOf(args);
+      return async (ledger) => {
+        const signature = await ledger.signTX(account, tx);
+        return { signature: signature.toString('hex') };
+      };
+    }
+    case 'version':
+      return (ledger) => ledger.version();
+    case 'ping':
+      return async (ledger) => {
+        await ledger.ping();
+        return { pong: true };
+      };
+    case 'discover': {
+      if (typeof(args.flags.node) !== 'string') {
+        throw new UsageError('discover requires --node');
+      }
+      const node      = args.flags.node.replace(/\/+$/, '');
+      const fetchJson = ctx.fetchJson || getJson;
+      const coins     = [coinOf(args)];
+      const gapLimit  = typeof(args.flags.gap) === 'string' ? toInteger('gap', args.flags.gap) : undefined;
+      return async (ledger) => {
+        const found = await discoverAccounts(ledger, {
+          coins,
+          gapLimit,
+          isUsed: async ({ address }) => {
+            const res = await fetchJson(`${node}/api/accounts?address=${address}`);
+            return !!res && (Array.isArray(res.data) ? res.data.length > 0 : !!res.account);
+          },
+        });
+        return found.map(({ address, index, publicKey, account }) => ({
+          address,
+          index,
+          path: account.toString(),
+          publicKey,
+        }));
+      };
+    }
+    default:
+      throw new UsageError(`Unknown command ${args.command}`);
+  }
+}
+
+function humanize(command: string, result: any): string[] {
+  switch (command) {
+    case 'pubkey':
+      return [`Public key: ${result.publicKey}`, `Address: ${result.address}`];
+    case 'version':
+      return [`Version: ${result.version}`, `CoinID: ${result.coinID}`];
+    case 'ping':
+      return ['PONG'];
+    case 'discover':
+      return result.length === 0 ?
+        ['No used accounts found'] :
+        result.map((a) => `${a.path}\t${a.address}\t${a.publicKey}`);
+    default:
+      return [result.signature];
+  }
+}
+
+function parseArgs(argv: string[]): IParsedArgs {
+  const parsed: IParsedArgs = { command: null, flags: {}, positional: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.indexOf('--') === 0) {
+      const name = arg.slice(2);
+      if (BOOLEAN_FLAGS.indexOf(name) !== -1) {
+        parsed.flags[name] = true;
+      } else if (i + 1 < argv.length) {
+        parsed.flags[name] = argv[++i];
+      } else {
+        throw new Error(`Missing value for --${name}`);
+      }
+    } else if (parsed.command === null) {
+      parsed.command = arg;
+    } else {
+      parsed.positional.push(arg);
+    }
+  }
+  return parsed;
+}
+
+function coinOf(args: IParsedArgs): number {
+  const coin = args.flags.coin;
+  if (typeof(coin) !== 'string') {
+    return SupportedCoin.LISK;
+  }
+  return /^[0-9]+$/.test(coin) ? parseInt(coin, 10) : coinRegistry.require(coin).slip44;
+}
+
+function accountOf(args: IParsedArgs): LedgerAccount {
+  if (typeof(args.flags.path) === 'string') {
+    if (typeof(args.flags.coin) !== 'undefined' || typeof(args.flags.account) !== 'undefined') {
+      throw new UsageError('--path cannot be used along with --coin or --account');
+    }
+    return LedgerAccount.fromString(args.flags.path);
+  }
+  const account = new LedgerAccount().coinIndex(coinOf(args));
+  if (typeof(args.flags.account) === 'string') {
+    account.account(toInteger('account', args.flags.account));
+  }
+  return account;
+}
+
+function toInteger(name: string, value: string): number {
+  if (!/^[0-9]+$/.test(value)) {
+    throw new UsageError(`--${name} must be a non negative integer`);
+  }
+  return parseInt(value, 10);
+}
+
+function hexToBuffer(hex: string): Buffer {
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) {
+    throw new UsageError('Invalid hex string');
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+function getJson(url: string): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const client: any = url.indexOf('https:') === 0 ? https : http;
+    client.get(url, (res) => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk) => body += chunk);
+      res.on('end', () => {
+        try {
+          resolve(JSON.parse(body));
+        } catch (e) {
+          reject(new Error(`Invalid response from ${url}`));
+        }
+      });
+    }).on('error', reject);
+  });
+}
@@ -0,0 +1,148 @@
+import { UnknownCoinError } from './errors';
+
+/**
+ * Describes a dPoS coin (network) the ledger app can be used with.
+ */
+export interface ICoinDefinition {
+  /**
+   * Display name (ex: Lisk). Lookups by name are case insensitive.
+   */
+  name: string;
+  /**
+   * SLIP-0044 index used as second level of the bip32 path.
+   * @see https://github.com/satoshilabs/slips/blob/master/slip-0044.md
+   */
+  slip44: number;
+  /**
+   * Suffix of addresses (ex: L)
+   */
+  addressSuffix: string;
+  /**
+   * Prefix prepended to messages before signing them.
+   */
+  messagePrefix: string;
+  /**
+   * Epoch transaction timestamps are relative to.
+   */
+  epoch: Date;
+}
+
+/**
+ * Registry of known coins. LISK and RISE are registered by default.
+ * @example
+ * ```javascript
+ *
+ * coinRegistry.register({
+ *   addressSuffix: 'S',
+ *   epoch        : new Date(Date.UTC(2016, 4, 24, 17, 0, 0, 0)),
+ *   messagePrefix: 'dPoS Signed Message:\n',
+ *   name         : 'Shift',
+ *   slip44       : 2000,
+ * });
+ * const account = new LedgerAccount().coinIndex('shift');
+ * ```
+ */
+export class CoinRegistry {
+  private coins: ICoinDefinition[] = [];
+
+  /**
+   * Registers a new coin. Throws if slip44 index or name are already registered.
+   * @param {ICoinDefinition} coin
+   * @returns {this}
+   */
+  public register(coin: ICoinDefinition): this {
+    if (!coin || typeof(coin.name) !== 'string' || coin.name.length === 0) {
+      throw new Error('Coin name must be a non empty string');
+    }
+    if (!Number.isInteger(coin.slip44) || coin.slip44 < 0 || coin.slip44 >= 0x80000000) {
+      throw new Error('Coin slip44 index must be an integer between 0 and 2^31-1');
+    }
+    if (typeof(coin.addressSuffix) !== 'string' || !/^[A-Z]+$/.test(coin.addressSuffix)) {
+      throw new Error('Coin address suffix must be made of uppercase letters');
+    }
+    if (typeof(coin.messagePrefix) !== 'string') {
+      throw new Error('Coin message prefix must be a string');
+    }
+    if (!(coin.epoch instanceof Date) || isNaN(coin.epoch.getTime())) {
+      throw new Error('Coin epoch must be a valid date');
+    }
+    if (this.get(coin.slip44) || this.get(coin.name)) {
+      throw new Error(`Coin ${coin.name} (${coin.slip44}) is already registered`);
+    }
+    this.coins.push({ ...coin });
+    return this;
+  }
+
+  /**
+   * Removes a coin from the registry.
+   * @param {number | string} coin slip44 index or name
+   * @returns {boolean} true if coin was registered.
+   */
+  public unregister(coin: number | string): boolean {
+    const def = this.get(coin);
+    if (def) {
+      this.coins.splice(this.coins.indexOf(def), 1);
+    }
+    return !!def;
+  }
+
+  /**
+   * Finds a coin by slip44 index or name.
+   * @param {number | string} coin slip44 index or name
+   * @returns {ICoinDefinition} the coin definition or undefined
+   */
+  public get(coin: number | string): ICoinDefinition {
+    return this.coins.find((c) => typeof(coin) === 'number' ?
+      c.slip44 === coin :
+      c.name.toLowerCase() === String(coin).toLowerCase());
+  }
+
+  /**
+   * Same as get but throws if coin is not registered.
+   * @param {number | string} coin slip44 index or name
+   * @returns {ICoinDefinition}
+   */
+  public require(coin: number | string): ICoinDefinition {
+    const def = this.get(coin);
+    if (!def) {
+      throw new UnknownCoinError(coin);
+    }
+    return def;
+  }
+
+  /**
+   * @returns {ICoinDefinition[]} all registered coins.
+   */
+  public list(): ICoinDefinition[] {
+    return this.coins.slice();
+  }
+
+  /**
+   * Converts a date into a transaction timestamp (seconds since coin epoch).
+   * @param {number | string} coin slip44 index or name
+   * @param {Date} date defaults to now.
+   * @returns {number}
+   */
+  public timestamp(coin: number | string, date: Date = new Date()): number {
+    return Math.floor((date.getTime() - this.require(coin).epoch.getTime()) / 1000);
+  }
+}
+
+/**
+ * Default registry used by the library.
+ */
+export const coinRegistry = new CoinRegistry()
+  .register({
+    addressSuffix: 'L',
+    epoch        : new Date(Date.UTC(2016, 4, 24, 17, 0, 0, 0)),
+    messagePrefix: 'dPoS Signed Message:\n',
+    name         : 'Lisk',
+    slip44       : 134, // SupportedCoin.LISK
+  })
+  .register({
+    addressSuffix: 'R',
+    epoch        : new Date(Date.UTC(2016, 4, 24, 17, 0, 0, 0)),
+    messagePrefix: 'dPoS Signed Message:\n',
+    name         : 'Rise',
+    slip44       : 1120, // SupportedCoin.RISE
+  });
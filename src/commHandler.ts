@@ -1,12 +1,122 @@
 import * as crc16 from 'crc/lib/crc16_ccitt';
-import { IProgressListener } from './IProgressListener';
+import { IAbortSignal } from './cancellation';
+import { CommandQueue, CommPriority } from './commandQueue';
+import {
+  CrcMismatchError,
+  LimitExceededError,
+  MalformedResponseError,
+  mapTransportError,
+  OperationCancelledError,
+  OperationTimeoutError
+} from './errors';
+import { IProgressEvent, IProgressListener } from './IProgressListener';
 import { ITransport } from './ledger';
+import { MAX_EXCHANGE_SIZE } from './limits';
+
+/**
+ * Per call options accepted by CommHandler.exchange and by every DposLedger method.
+ */
+export interface ICommandOptions {
+  /**
+   * Aborts the exchange. The returned promise rejects with OperationCancelledError.
+   */
+  signal?: IAbortSignal;
+  /**
+   * Milliseconds allowed to send the payload to the device. 0 disables it.
+   * Defaults to CommHandler.transferTimeout
+   */
+  transferTimeout?: number;
+  /**
+   * Milliseconds allowed to the device to answer after the payload was sent (ex: user confirming a signature).
+   * 0 disables it. Defaults to CommHandler.confirmationTimeout
+   */
+  confirmationTimeout?: number;
+  /**
+   * Listener notified about this call only. CommHandler.progressListener, if set, gets notified as well.
+   */
+  progressListener?: IProgressListener;
+}
+
+/**
+ * Options accepted by CommHandler.exchange
+ */
+export interface IExchangeOptions extends ICommandOptions {
+  /**
+   * Priority of the exchange in the queue. Defaults to NORMAL.
+   */
+  priority?: CommPriority;
+}
+
+/**
+ * Describes how exchanges failing with a CRC mismatch get retried.
+ * The whole comm flow is restarted as the device resets its buffer on each new start packet.
+ */
+export interface IRetryPolicy {
+  /**
+   * Maximum number of attempts, including the first one. 1 disables retries.
+   */
+  maxAttempts: number;
+  /**
+   * Delay in ms before the first retry.
+   */
+  initialDelay: number;
+  /**
+   * Multiplier applied to the delay after each retry.
+   */
+  backoffFactor: number;
+  /**
+   * Upper bound for the delay in ms.
+   */
+  maxDelay: number;
+}
+
+/**
+ * Handle used by doExchange to drive phase timeouts and cancellation.
+ */
+export interface IExchangeControl {
+  /**
+   * Listeners of the exchange (handler wide and per call ones).
+   */
+  listeners: IProgressListener[];
+  /**
+   * Starts the timeout of the given phase, stopping the previous one.
+   */
+  enterPhase(phase: 'transfer' | 'confirmation'): void;
+  /**
+   * Throws if the exchange was cancelled or timed out.
+   */
+  checkpoint(): void;
+  /**
+   * Merges the update into the progress of the exchange and notifies the listeners.
+   */
+  report(update: Partial<IProgressEvent>): void;
+}
 
 /**
  * Communication Handler.
+ * Exchanges are queued and run one at a time so that concurrent calls never interleave packets.
  */
 export class CommHandler {
   public progressListener: IProgressListener = null;
+  /**
+   * Default transfer phase timeout in ms. 0 means no timeout.
+   */
+  public transferTimeout: number              = 0;
+  /**
+   * Default confirmation phase timeout in ms. 0 means no timeout.
+   */
+  public confirmationTimeout: number          = 0;
+  /**
+   * Retry policy applied to CRC failures. Defaults to 3 attempts with 100ms, 200ms delays.
+   */
+  public retryPolicy: IRetryPolicy            = {
+    backoffFactor: 2,
+    initialDelay : 100,
+    maxAttempts  : 3,
+    maxDelay     : 2000,
+  };
+  private queue: CommandQueue = new CommandQueue();
+  private stalledWork: Promise<any> = null;
   /**
    * @param {ITransport} transport transport class.
    * @param {number} chunkSize lets you specify the chunkSize for each communication.<br/>
@@ -24,33 +134,254 @@ export class CommHandler {
     }
     transport.setScrambleKey('vekexasia');
   }
+
+  /**
+   * Number of exchanges waiting in queue (the running one is not counted).
+   */
+  get queueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * True if an exchange is currently in progress.
+   */
+  get busy(): boolean {
+    return this.queue.busy;
+  }
+
+  /**
+   * True while a cancelled (or timed out) exchange still waits for the device to answer, typically because
+   * a confirmation prompt is still shown on screen. Queued exchanges won't start until the user acts on it.
+   */
+  get stalled(): boolean {
+    return this.stalledWork !== null;
+  }
+
+  /**
+   * Number of queued exchanges with the given priority.
+   * @param {CommPriority} priority
+   * @returns {number}
+   */
+  public queueLengthOf(priority: CommPriority): number {
+    return this.queue.lengthOf(priority);
+  }
+
   /**
-   * Raw exchange protocol handling. It's exposed but it is meant for internal usage only.
+   * Drops pending exchanges with priority lower or equal than the given one (BACKGROUND by default).
+   * Dropped exchanges are rejected with CommandDroppedError.
+   * @param {CommPriority} maxPriority
+   * @returns {number} number of dropped exchanges.
+   */
+  public dropPending(maxPriority: CommPriority = CommPriority.BACKGROUND): number {
+    return this.queue.drop(maxPriority);
+  }
+
+  /**
+   * Raw exchange protocol handling. It's exposed but it is meant for internal usage only.<br/>
+   * When cancelled (or timed out) the returned promise rejects straight away while the in-flight packet,
+   * if any, is awaited before the next queued exchange starts. No further packets get sent, and the following
+   * exchange restarts the comm flow so the device is left in a clean state. Please note that a prompt already
+   * shown on the device cannot be dismissed remotely: the next exchange will run once the user acts on it.
+   * stalled tells if that is the case.
    * @param {string | Buffer} hexData
+   * @param {IExchangeOptions} opts
    * @returns {Promise<Buffer[]>} Raw response buffers.
    */
-  public async exchange(hexData: string | Buffer | number | Array<(string | Buffer | number)>): Promise<Buffer[]> {
+  public exchange(hexData: string | Buffer | number | Array<(string | Buffer | number)>,
+                  opts: IExchangeOptions = {}): Promise<Buffer[]> {
     let inputBuffer: Buffer;
-    if (Array.isArray(hexData)) {
-      inputBuffer = Buffer.concat(hexData.map((item) => {
-        if (typeof(item) === 'string') {
-          return new Buffer(item, 'hex');
-        } else if (typeof(item) === 'number') {
-          return Buffer.alloc(1).fill(item);
+    try {
+      inputBuffer = this.toInputBuffer(hexData);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+    if (inputBuffer.length > MAX_EXCHANGE_SIZE) {
+      return Promise.reject(new LimitExceededError('Payload size', MAX_EXCHANGE_SIZE, inputBuffer.length));
+    }
+    const signal = opts.signal;
+    if (signal && signal.aborted) {
+      return Promise.reject(new OperationCancelledError());
+    }
+    const timeouts = {
+      confirmation: typeof(opts.confirmationTimeout) === 'undefined' ?
+        this.confirmationTimeout : opts.confirmationTimeout,
+      transfer    : typeof(opts.transferTimeout) === 'undefined' ? this.transferTimeout : opts.transferTimeout,
+    };
+
+    const listeners = [this.progressListener, opts.progressListener].filter((l) => !!l);
+    let progress: IProgressEvent = {
+      attempt   : 1,
+      bytesSent : 0,
+      chunkCount: Math.ceil(inputBuffer.length / this.chunkSize),
+      chunkIndex: -1,
+      percentage: 0,
+      phase     : 'transferring',
+      totalBytes: inputBuffer.length,
+    };
+
+    let cancelReason: Error = null;
+    let timer: any          = null;
+    let rejectCancelled: (err: Error) => void;
+    const cancelled         = new Promise<never>((resolve, reject) => rejectCancelled = reject);
+    const cancel            = (err: Error) => {
+      if (cancelReason === null) {
+        cancelReason = err;
+        rejectCancelled(err);
+      }
+    };
+    const onAbort = () => cancel(new OperationCancelledError());
+    const control: IExchangeControl = {
+      checkpoint: () => {
+        if (cancelReason !== null) {
+          throw cancelReason;
+        }
+      },
+      enterPhase: (phase) => {
+        clearTimeout(timer);
+        if (timeouts[phase] > 0) {
+          timer = setTimeout(() => cancel(new OperationTimeoutError(phase, timeouts[phase])), timeouts[phase]);
         }
-        return item;
-      }));
-    } else if (typeof(hexData) === 'string') {
-      inputBuffer = new Buffer(hexData, 'hex');
-    } else if (typeof(hexData) === 'number') {
-      inputBuffer = Buffer.alloc(1).fill(hexData);
-    } else {
-      inputBuffer = hexData;
+      },
+      listeners,
+      report    : (update) => {
+        // Nothing gets reported after the caller was notified about the failure.
+        if (progress.phase === 'failed') {
+          return;
+        }
+        progress            = { ...progress, ...update };
+        progress.percentage = progress.totalBytes === 0 ?
+          0 : Math.floor(progress.bytesSent * 100 / progress.totalBytes);
+        listeners.forEach((l) => {
+          if (l.onProgress) {
+            l.onProgress({ ...progress });
+          }
+        });
+      },
+    };
+    const cleanup = () => {
+      clearTimeout(timer);
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    };
+    if (signal) {
+      signal.addEventListener('abort', onAbort);
     }
 
+    let running = false;
+    const work  = this.queue.push(
+      async () => {
+        control.checkpoint();
+        running = true;
+        try {
+          return await this.exchangeWithRetries(inputBuffer, control);
+        } finally {
+          running = false;
+        }
+      },
+      typeof(opts.priority) === 'undefined' ? CommPriority.NORMAL : opts.priority
+    );
+    return Promise.race([work, cancelled])
+      .then((res) => {
+        cleanup();
+        return res;
+      }, (err) => {
+        cleanup();
+        control.report({ phase: 'failed', error: err });
+        if (cancelReason !== null && running) {
+          this.markStalled(work);
+        }
+        throw err;
+      });
+  }
+
+  /**
+   * Converts exchange input into a single buffer.
+   * @param {string | Buffer | number | Array<(string | Buffer | number)>} hexData
+   * @returns {Buffer}
+   */
+  protected toInputBuffer(hexData: string | Buffer | number | Array<(string | Buffer | number)>): Buffer {
+    const toBuffer = (item: string | Buffer | number) => {
+      if (typeof(item) === 'string') {
+        return new Buffer(item, 'hex');
+      } else if (typeof(item) === 'number') {
+        return Buffer.alloc(1).fill(item);
+      } else if (!Buffer.isBuffer(item)) {
+        throw new TypeError('Exchange data must be a Buffer, an hex string, a byte or an array of them');
+      }
+      return item;
+    };
+    return Array.isArray(hexData) ? Buffer.concat(hexData.map(toBuffer)) : toBuffer(hexData);
+  }
+
+  /**
+   * Flags the handler as stalled until the given abandoned exchange settles.
+   * @param {Promise<any>} work the queued exchange
+   */
+  protected markStalled(work: Promise<any>) {
+    const release    = () => {
+      if (this.stalledWork === stalled) {
+        this.stalledWork = null;
+      }
+    };
+    const stalled    = work.then(release, release);
+    this.stalledWork = stalled;
+  }
+
+  /**
+   * Runs doExchange restarting it on CRC failures as described by the retryPolicy.
+   * Listeners get onStart and onEnd once per exchange, whatever the number of attempts.
+   * @param {Buffer} inputBuffer
+   * @param {IExchangeControl} control
+   * @returns {Promise<Buffer[]>} Raw response buffers.
+   */
+  protected async exchangeWithRetries(inputBuffer: Buffer, control: IExchangeControl): Promise<Buffer[]> {
+    const policy = this.retryPolicy;
+    let delay    = policy.initialDelay;
+    control.listeners.forEach((l) => {
+      if (l.onStart) {
+        l.onStart();
+      }
+    });
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.doExchange(inputBuffer, control);
+        control.listeners.forEach((l) => {
+          if (l.onEnd) {
+            l.onEnd();
+          }
+        });
+        control.report({ phase: 'completed' });
+        return response;
+      } catch (err) {
+        if (!(err instanceof CrcMismatchError) || attempt >= policy.maxAttempts) {
+          throw err;
+        }
+        control.listeners.forEach((l) => {
+          if (l.onRetry) {
+            l.onRetry(attempt + 1, err, delay);
+          }
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        control.checkpoint();
+        control.report({ attempt: attempt + 1 });
+        delay = Math.min(delay * policy.backoffFactor, policy.maxDelay);
+      }
+    }
+  }
+
+  /**
+   * Runs the whole start/chunks/close comm flow. Never call it outside of the queue.
+   * @param {Buffer} inputBuffer
+   * @param {IExchangeControl} control cancellation handle. control.checkpoint() must be called before each packet.
+   * @returns {Promise<Buffer[]>} Raw response buffers.
+   */
+  protected async doExchange(inputBuffer: Buffer, control: IExchangeControl): Promise<Buffer[]> {
+    control.enterPhase('transfer');
+    control.report({ bytesSent: 0, chunkIndex: -1, phase: 'transferring' });
     // Send start comm packet
     const startCommBuff = this.prepareStartCommBufferContent(inputBuffer);
-    await this.transport.send(0xe0, 89, 0, 0, startCommBuff);
+    await this.send(89, startCommBuff);
 
     // Calculate number of chunks to send.
     const chunkDataSize = this.chunkSize;
@@ -63,40 +394,66 @@ export class CommHandler {
       // copy chunk data
       const dataBuffer = inputBuffer.slice(i * chunkDataSize, i * chunkDataSize + dataSize);
 
+      control.checkpoint();
       const [curCRC, prevCRCLedger] = this.decomposeResponse(
-        await this.transport.send(
-          0xe0,
-          90,
-          0,
-          0,
-          dataBuffer
-        )
+        await this.send(90, dataBuffer)
       );
       const crc           = crc16(dataBuffer);
-      const receivedCRC   = curCRC.readUInt16LE(0);
+      const receivedCRC   = this.readCRC(curCRC);
 
       if (crc !== receivedCRC) {
-        throw new Error('Something went wrong during CRC validation');
+        throw new CrcMismatchError('Something went wrong during CRC validation', crc, receivedCRC);
       }
 
-      if (prevCRCLedger.readUInt16LE(0) !== prevCRC) {
-        throw new Error('Prev CRC is not valid');
+      const receivedPrevCRC = this.readCRC(prevCRCLedger);
+      if (receivedPrevCRC !== prevCRC) {
+        throw new CrcMismatchError('Prev CRC is not valid', prevCRC, receivedPrevCRC);
       }
 
       prevCRC = crc;
 
-      if (this.progressListener) {
-        this.progressListener.onChunkProcessed(dataBuffer);
-      }
+      control.listeners.forEach((l) => {
+        if (l.onChunkProcessed) {
+          l.onChunkProcessed(dataBuffer);
+        }
+      });
+      control.report({ bytesSent: i * chunkDataSize + dataSize, chunkIndex: i });
     }
-    // Close comm flow.
-    const resBuf = await this.transport.send(0xe0, 91, 0, 0);
+    // Close comm flow. The device might now ask the user to confirm.
+    control.checkpoint();
+    control.enterPhase('confirmation');
+    control.report({ phase: 'awaitingConfirmation' });
+    const resBuf = await this.send(91);
+    control.checkpoint();
+    return this.decomposeResponse(resBuf);
+  }
 
-    if (this.progressListener) {
-      this.progressListener.onEnd();
+  /**
+   * Sends a single command to the transport mapping any failure to the corresponding typed error.
+   * @param {number} ins instruction
+   * @param {Buffer} data optional payload
+   * @returns {Promise<Buffer>} raw response
+   */
+  protected async send(ins: number, data?: Buffer): Promise<Buffer> {
+    try {
+      return await (typeof(data) === 'undefined' ?
+        this.transport.send(0xe0, ins, 0, 0) :
+        this.transport.send(0xe0, ins, 0, 0, data));
+    } catch (err) {
+      throw mapTransportError(err);
     }
+  }
 
-    return this.decomposeResponse(resBuf);
+  /**
+   * Reads a CRC element of a chunk response.
+   * @param {Buffer} crcBuf element of the decomposed response
+   * @returns {number} the crc
+   */
+  protected readCRC(crcBuf: Buffer): number {
+    if (!crcBuf || crcBuf.length < 2) {
+      throw new MalformedResponseError('Missing CRC in chunk response');
+    }
+    return crcBuf.readUInt16LE(0);
   }
 
   protected prepareStartCommBufferContent(inputBuffer: Buffer) {
@@ -111,13 +468,22 @@ export class CommHandler {
    * @returns {Array<Buffer>} decomposed response.
    */
   protected decomposeResponse(resBuf: Buffer): Buffer[] {
+    if (!Buffer.isBuffer(resBuf) || resBuf.length < 1) {
+      throw new MalformedResponseError('Empty response from device');
+    }
     const totalElements   = resBuf.readInt8(0);
     const toRet: Buffer[] = [];
     let index             = 1; // 1 read uint8_t
 
     for (let i = 0; i < totalElements; i++) {
+      if (index + 2 > resBuf.length) {
+        throw new MalformedResponseError(`Response is missing element ${i} of ${totalElements}`);
+      }
       const elLength = resBuf.readInt16LE(index);
       index += 2;
+      if (elLength < 0 || index + elLength > resBuf.length) {
+        throw new MalformedResponseError(`Response element ${i} exceeds response length`);
+      }
       toRet.push(resBuf.slice(index, index + elLength));
       index += elLength;
     }
@@ -0,0 +1,108 @@
+import { CommandDroppedError } from './errors';
+
+/**
+ * Priority of a queued command. Higher priorities run first.
+ */
+export enum CommPriority {
+  /**
+   * Background polling (ex: ping).
+   */
+  BACKGROUND = 0,
+  NORMAL     = 1,
+  /**
+   * User initiated operations (ex: signing).
+   */
+  USER       = 2,
+}
+
+interface IQueuedJob {
+  priority: CommPriority;
+  task: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Exclusive priority queue. Only one task runs at a time; pending tasks are sorted by priority
+ * and run in insertion order within the same priority.
+ */
+export class CommandQueue {
+  private pending: IQueuedJob[] = [];
+  private running: boolean      = false;
+
+  /**
+   * Number of tasks waiting to be run (the running one is not counted).
+   */
+  get length(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * True if a task is currently running.
+   */
+  get busy(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Number of pending tasks with the given priority.
+   * @param {CommPriority} priority
+   * @returns {number}
+   */
+  public lengthOf(priority: CommPriority): number {
+    return this.pending.filter((j) => j.priority === priority).length;
+  }
+
+  /**
+   * Enqueues a task.
+   * @param {() => Promise<T>} task
+   * @param {CommPriority} priority
+   * @returns {Promise<T>} resolves (or rejects) with the task result once it ran.
+   */
+  public push<T>(task: () => Promise<T>, priority: CommPriority = CommPriority.NORMAL): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const job   = { priority, task, resolve, reject };
+      const index = this.pending.findIndex((j) => j.priority < priority);
+      if (index === -1) {
+        this.pending.push(job);
+      } else {
+        this.pending.splice(index, 0, job);
+      }
+      this.next();
+    });
+  }
+
+  /**
+   * Rejects with CommandDroppedError every pending task with priority lower or equal to the given one.
+   * The running task is never dropped.
+   * @param {CommPriority} maxPriority defaults to BACKGROUND
+   * @returns {number} number of dropped tasks.
+   */
+  public drop(maxPriority: CommPriority = CommPriority.BACKGROUND): number {
+    const dropped = this.pending.filter((j) => j.priority <= maxPriority);
+    this.pending  = this.pending.filter((j) => j.priority > maxPriority);
+    dropped.forEach((j) => j.reject(new CommandDroppedError()));
+    return dropped.length;
+  }
+
+  private next() {
+    if (this.running || this.pending.length === 0) {
+      return;
+    }
+    const job    = this.pending.shift();
+    this.running = true;
+    const done   = () => {
+      this.running = false;
+      this.next();
+    };
+    Promise.resolve()
+      .then(() => job.task())
+      .then((res) => {
+        done();
+        job.resolve(res);
+      }, (err) => {
+        done();
+        job.reject(err);
+      });
+  }
+}
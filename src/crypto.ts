@@ -0,0 +1,93 @@
+import { sha256 as jsSha256 } from 'js-sha256';
+import * as nacl from 'tweetnacl';
+
+/**
+ * Prefix prepended by the ledger app to every message before signing it.
+ */
+export const SIGNED_MESSAGE_PREFIX = 'dPoS Signed Message:\n';
+
+/**
+ * Computes sha256 of the given buffer.
+ * @param {Buffer} data
+ * @returns {Buffer}
+ */
+export function sha256(data: Buffer): Buffer {
+  return Buffer.from(jsSha256.arrayBuffer(data));
+}
+
+/**
+ * Computes sha512 of the given buffer.
+ * @param {Buffer} data
+ * @returns {Buffer}
+ */
+export function sha512(data: Buffer): Buffer {
+  return toBuffer(nacl.hash(data));
+}
+
+/**
+ * Computes HMAC-SHA512 of the given data.
+ * @param {Buffer} key
+ * @param {Buffer} data
+ * @returns {Buffer}
+ */
+export function hmacSha512(key: Buffer, data: Buffer): Buffer {
+  const blockSize = 128;
+  const normKey   = Buffer.alloc(blockSize);
+  (key.length > blockSize ? sha512(key) : key).copy(normKey);
+
+  const ipad = Buffer.alloc(blockSize);
+  const opad = Buffer.alloc(blockSize);
+  for (let i = 0; i < blockSize; i++) {
+    ipad[i] = normKey[i] ^ 0x36; // tslint:disable-line no-bitwise
+    opad[i] = normKey[i] ^ 0x5c; // tslint:disable-line no-bitwise
+  }
+  return sha512(Buffer.concat([opad, sha512(Buffer.concat([ipad, data]))]));
+}
+
+/**
+ * Bitcoin style varint encoding.
+ * @param {number} n
+ * @returns {Buffer}
+ */
+export function encodeVarInt(n: number): Buffer {
+  let buf: Buffer;
+  if (n < 0xfd) {
+    buf = Buffer.alloc(1);
+    buf.writeUInt8(n, 0);
+  } else if (n <= 0xffff) {
+    buf = Buffer.alloc(3);
+    buf.writeUInt8(0xfd, 0);
+    buf.writeUInt16LE(n, 1);
+  } else {
+    buf = Buffer.alloc(5);
+    buf.writeUInt8(0xfe, 0);
+    buf.writeUInt32LE(n, 1);
+  }
+  return buf;
+}
+
+/**
+ * Builds the buffer the ledger app hashes when signing a message
+ * (varint(prefix length) + prefix + varint(msg length) + msg).
+ * @param {Buffer} message
+ * @param {string} prefix
+ * @returns {Buffer}
+ */
+export function messageBytes(message: Buffer, prefix: string = SIGNED_MESSAGE_PREFIX): Buffer {
+  const prefixBuf = Buffer.from(prefix, 'utf8');
+  return Buffer.concat([
+    encodeVarInt(prefixBuf.length),
+    prefixBuf,
+    encodeVarInt(message.length),
+    message,
+  ]);
+}
+
+/**
+ * Wraps an Uint8Array into a Buffer without copying it.
+ * @param {Uint8Array} arr
+ * @returns {Buffer}
+ */
+export function toBuffer(arr: Uint8Array): Buffer {
+  return Buffer.from(arr.buffer, arr.byteOffset, arr.byteLength);
+}
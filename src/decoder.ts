@@ -0,0 +1,317 @@
+import { InvalidTransactionError } from './errors';
+import { DEFAULT_LIMITS } from './limits';
+import { Transaction, TransactionType } from './transaction';
+import { bufferToDecimal } from './utils';
+
+/**
+ * Options used to decode transaction bytes.
+ * Presence of requesterPublicKey and signatures cannot be derived from the bytes alone.
+ */
+export interface IDecodeOptions {
+  hasRequesterPublicKey?: boolean;
+  hasSignature?: boolean;
+  hasSignSignature?: boolean;
+  /**
+   * Suffix appended to the decoded recipientId. Defaults to L
+   */
+  addressSuffix?: string;
+}
+
+/**
+ * A single screen shown by the ledger app while asking for confirmation.
+ */
+export interface IDisplayScreen {
+  title: string;
+  value: string;
+}
+
+/**
+ * Options describing how the device renders messages.
+ */
+export interface IMessagePreviewOptions {
+  /**
+   * Characters per line. Defaults to DEVICE_MESSAGE_LINE_LENGTH
+   */
+  lineLength?: number;
+  /**
+   * Maximum number of lines shown. Extra lines are dropped. Defaults to DEVICE_MESSAGE_MAX_LINES, 0 means no limit
+   */
+  maxLines?: number;
+  /**
+   * Character shown in place of non-printable bytes of text messages. Defaults to ?
+   */
+  replacement?: string;
+}
+
+/**
+ * What the device shows when asked to sign a message.
+ */
+export interface IMessagePreview {
+  /**
+   * True if the device replaces the message with the binary placeholder.
+   */
+  binary: boolean;
+  /**
+   * Text shown to the user (ex: <binary data>).
+   */
+  text: string;
+  /**
+   * Text wrapped in lines as rendered by the device.
+   */
+  lines: string[];
+  /**
+   * True if some lines exceed maxLines and won't be shown.
+   */
+  truncated: boolean;
+  /**
+   * Ratio (0-1) of non-printable bytes of the message.
+   */
+  nonPrintableRatio: number;
+}
+
+/**
+ * Placeholder shown by the device in place of binary messages.
+ */
+export const BINARY_MESSAGE_PLACEHOLDER = '<binary data>';
+
+/**
+ * Characters per line shown by the device when displaying messages.
+ */
+export const DEVICE_MESSAGE_LINE_LENGTH = 16;
+
+/**
+ * Maximum number of message lines shown by the device: enough for the longest message the app accepts.
+ */
+export const DEVICE_MESSAGE_MAX_LINES = Math.ceil(DEFAULT_LIMITS.maxMessageSize / DEVICE_MESSAGE_LINE_LENGTH);
+
+// type + timestamp + senderPublicKey + recipient + amount
+const MIN_TX_LENGTH = 1 + 4 + 32 + 8 + 8;
+
+/**
+ * Decodes the bytes of a transaction (the same passed to signTX) back into a transaction object.
+ * Throws InvalidTransactionError for anything the ledger app would refuse.
+ * Note: fee is not part of the bytes so it will be undefined.
+ * @param {Buffer} bytes transaction bytes
+ * @param {IDecodeOptions} opts
+ * @returns {Transaction} decoded transaction
+ */
+export function decodeTransaction(bytes: Buffer, opts: IDecodeOptions = {}): Transaction {
+  if (!Buffer.isBuffer(bytes)) {
+    throw new InvalidTransactionError('Transaction bytes must be a buffer');
+  }
+  const trailerLength = (opts.hasSignature ? 64 : 0) + (opts.hasSignSignature ? 64 : 0);
+  if (opts.hasSignSignature && !opts.hasSignature) {
+    throw new InvalidTransactionError('signSignature cannot be present without signature');
+  }
+  const headerLength = MIN_TX_LENGTH + (opts.hasRequesterPublicKey ? 32 : 0);
+  if (bytes.length < headerLength + trailerLength) {
+    throw new InvalidTransactionError('Transaction is truncated');
+  }
+  const type = bytes.readUInt8(0);
+  if (!(type in TransactionType)) {
+    throw new InvalidTransactionError(`Unknown transaction type ${type}`);
+  }
+
+  let offset = 5;
+  const readHex = (size: number) => {
+    const hex = bytes.slice(offset, offset + size).toString('hex');
+    offset += size;
+    return hex;
+  };
+
+  const timestamp          = bytes.readInt32LE(1);
+  const senderPublicKey    = readHex(32);
+  const requesterPublicKey = opts.hasRequesterPublicKey ? readHex(32) : undefined;
+  const recipient          = bytes.slice(offset, offset + 8);
+  offset += 8;
+  // amount is little endian.
+  const amountBuf = Buffer.from(bytes.slice(offset, offset + 8));
+  amountBuf.reverse();
+  const amount    = bufferToDecimal(amountBuf);
+  if (!Number.isSafeInteger(Number(amount))) {
+    throw new InvalidTransactionError(`Amount ${amount} is too big`);
+  }
+  offset += 8;
+
+  const asset = bytes.slice(offset, bytes.length - trailerLength);
+  offset += asset.length;
+
+  const tx = {
+    amount: Number(amount),
+    asset : decodeAsset(type, asset),
+    fee   : undefined,
+    senderPublicKey,
+    timestamp,
+    type,
+  } as Transaction;
+  if (requesterPublicKey) {
+    tx.requesterPublicKey = requesterPublicKey;
+  }
+  if (recipient.some((b) => b !== 0)) {
+    const suffix   = typeof(opts.addressSuffix) === 'string' ? opts.addressSuffix : 'L';
+    tx.recipientId = `${bufferToDecimal(recipient)}${suffix}`;
+  }
+  if (opts.hasSignature) {
+    tx.signature = readHex(64);
+  }
+  if (opts.hasSignSignature) {
+    tx.signSignature = readHex(64);
+  }
+  return tx;
+}
+
+/**
+ * Computes the screens the ledger app will show while asking to confirm the transaction.
+ * @param {Transaction} tx decoded (or to be serialized) transaction
+ * @returns {IDisplayScreen[]}
+ */
+export function previewTransaction(tx: Transaction): IDisplayScreen[] {
+  const screens: IDisplayScreen[] = [];
+  switch (tx.type) {
+    case TransactionType.SEND:
+      screens.push({ title: 'Send', value: formatAmount(tx.amount) });
+      screens.push({ title: 'To', value: tx.recipientId || '' });
+      if (tx.asset && tx.asset.data) {
+        screens.push({ title: 'Data', value: tx.asset.data });
+      }
+      break;
+    case TransactionType.SECOND_SIGNATURE:
+      screens.push({ title: 'Create second signature', value: tx.asset.signature.publicKey });
+      break;
+    case TransactionType.DELEGATE:
+      screens.push({ title: 'Register delegate', value: tx.asset.delegate.username });
+      break;
+    case TransactionType.VOTE:
+      const added   = tx.asset.votes.filter((v) => v[0] === '+').length;
+      const removed = tx.asset.votes.filter((v) => v[0] === '-').length;
+      screens.push({ title: 'Vote', value: `Added: ${added} Removed: ${removed}` });
+      break;
+    case TransactionType.MULTISIGNATURE:
+      const ms = tx.asset.multisignature;
+      screens.push({ title: 'Create multisignature', value: `Keys: ${ms.keysgroup.length}` });
+      screens.push({ title: 'Min / Lifetime', value: `${ms.min} / ${ms.lifetime}h` });
+      break;
+    default:
+      throw new InvalidTransactionError(`Unknown transaction type ${(tx as any).type}`);
+  }
+  if (tx.requesterPublicKey) {
+    screens.push({ title: 'Requester', value: tx.requesterPublicKey });
+  }
+  return screens;
+}
+
+/**
+ * Predicts what the device shows when asked to sign the given message.
+ * Messages whose first byte is not printable, or having more than 40% of non-printable bytes,
+ * are displayed as <binary data>. Printable bytes are ascii 0x20 - 0x7e; in text messages new lines
+ * break the line and other non-printable bytes are shown as opts.replacement.
+ * @param {string | Buffer} message the message as passed to DposLedger.signMSG
+ * @param {IMessagePreviewOptions} opts
+ * @returns {IMessagePreview}
+ * @example
+ * ```javascript
+ *
+ * if (previewMessage(message).binary) {
+ *   alert('You are about to sign data you cannot read on your device');
+ * }
+ * ```
+ */
+export function previewMessage(message: string | Buffer, opts: IMessagePreviewOptions = {}): IMessagePreview {
+  const lineLength  = opts.lineLength || DEVICE_MESSAGE_LINE_LENGTH;
+  const maxLines    = typeof(opts.maxLines) === 'undefined' ? DEVICE_MESSAGE_MAX_LINES : opts.maxLines;
+  const replacement = typeof(opts.replacement) === 'undefined' ? '?' : opts.replacement;
+  const msgBuf      = typeof(message) === 'string' ? Buffer.from(message, 'utf8') : message;
+
+  const nonPrintable      = msgBuf.filter((b) => !isPrintable(b)).length;
+  const nonPrintableRatio = msgBuf.length === 0 ? 0 : nonPrintable / msgBuf.length;
+  const binary            = msgBuf.length > 0 && (!isPrintable(msgBuf[0]) || nonPrintable * 100 / msgBuf.length > 40);
+
+  let text: string;
+  let lines: string[];
+  if (binary) {
+    text  = BINARY_MESSAGE_PLACEHOLDER;
+    lines = [text];
+  } else {
+    text  = Array.from(msgBuf)
+      .map((b) => isPrintable(b) || b === 0x0a ? String.fromCharCode(b) : replacement)
+      .join('');
+    lines = [];
+    for (const line of text.split('\n')) {
+      for (let i = 0; i === 0 || i < line.length; i += lineLength) {
+        lines.push(line.substr(i, lineLength));
+      }
+    }
+  }
+
+  const truncated = maxLines > 0 && lines.length > maxLines;
+  return {
+    binary,
+    lines: truncated ? lines.slice(0, maxLines) : lines,
+    nonPrintableRatio,
+    text,
+    truncated,
+  };
+}
+
+/**
+ * Formats an amount in satoshi the way the app does (ex: 851000000 => 8.51)
+ * @param {number} amount
+ * @returns {string}
+ */
+export function formatAmount(amount: number): string {
+  const str     = `000000000${amount}`.replace(/^0+(?=\d{9})/, '');
+  const integer = str.slice(0, -8);
+  const decimal = str.slice(-8).replace(/0+$/, '');
+  return decimal.length > 0 ? `${integer}.${decimal}` : integer;
+}
+
+function isPrintable(byte: number): boolean {
+  return byte >= 0x20 && byte <= 0x7e;
+}
+
+function decodeAsset(type: TransactionType, asset: Buffer): Transaction['asset'] {
+  switch (type) {
+    case TransactionType.SEND:
+      return asset.length > 0 ? { data: asset.toString('utf8') } : {};
+    case TransactionType.SECOND_SIGNATURE:
+      if (asset.length !== 32) {
+        throw new InvalidTransactionError('Second signature asset must be 32 bytes');
+      }
+      return { signature: { publicKey: asset.toString('hex') } };
+    case TransactionType.DELEGATE:
+      if (asset.length === 0) {
+        throw new InvalidTransactionError('Delegate username is missing');
+      }
+      return { delegate: { username: asset.toString('utf8') } };
+    case TransactionType.VOTE:
+      return { votes: splitEntries(asset.toString('utf8')) };
+    case TransactionType.MULTISIGNATURE:
+      if (asset.length < 2) {
+        throw new InvalidTransactionError('Multisignature asset is truncated');
+      }
+      return {
+        multisignature: {
+          keysgroup: splitEntries(asset.slice(2).toString('utf8')),
+          lifetime : asset[1],
+          min      : asset[0],
+        },
+      };
+  }
+}
+
+/**
+ * Splits a '+key1-key2' string into ['+key1', '-key2'].
+ */
+function splitEntries(str: string): string[] {
+  if (str.length === 0) {
+    return [];
+  }
+  if (str[0] !== '+' && str[0] !== '-') {
+    // keysgroup entries without modifier are 64 chars long public keys.
+    if (str.length % 64 !== 0) {
+      throw new InvalidTransactionError('Malformed public key list');
+    }
+    return str.match(/.{64}/g);
+  }
+  return str.match(/[+-][^+-]*/g);
+}
@@ -0,0 +1,100 @@
+import { LedgerAccount, SupportedCoin } from './account';
+import { deriveAddress } from './address';
+import { coinRegistry } from './coinRegistry';
+import { DposLedger } from './library';
+
+/**
+ * An account checked during discovery.
+ */
+export interface IDiscoveredAccount {
+  coin: SupportedCoin | number;
+  index: number;
+  account: LedgerAccount;
+  publicKey: string;
+  /**
+   * Address of the coin, derived locally from publicKey. The device reported one is used for unregistered coins.
+   */
+  address: string;
+}
+
+/**
+ * Progress reported after each checked account.
+ */
+export interface IDiscoveryProgress extends IDiscoveredAccount {
+  used: boolean;
+  /**
+   * Number of consecutive unused accounts found so far for the coin.
+   */
+  gap: number;
+}
+
+export interface IDiscoveryOptions {
+  /**
+   * Predicate telling if an account was ever used (ex: by querying a node for its balance or txs).
+   */
+  isUsed: (account: IDiscoveredAccount) => boolean | Promise<boolean>;
+  /**
+   * Coins (slip44 indexes) to scan. Defaults to LISK only.
+   */
+  coins?: Array<SupportedCoin | number>;
+  /**
+   * Number of consecutive unused accounts after which scanning stops. Defaults to 5.
+   */
+  gapLimit?: number;
+  /**
+   * First account index to check. Defaults to 0.
+   */
+  startIndex?: number;
+  /**
+   * Called after each account is checked.
+   */
+  onProgress?: (progress: IDiscoveryProgress) => void;
+}
+
+/**
+ * Walks account indexes for each coin until gapLimit consecutive unused accounts are found.
+ * @param {DposLedger} ledger
+ * @param {IDiscoveryOptions} opts
+ * @returns {Promise<IDiscoveredAccount[]>} used accounts.
+ * @example
+ * ```javascript
+ *
+ * const used = await discoverAccounts(instance, {
+ *   coins: [SupportedCoin.LISK, SupportedCoin.RISE],
+ *   isUsed: ({address}) => api.hasTransactions(address),
+ * });
+ * ```
+ */
+export async function discoverAccounts(ledger: DposLedger, opts: IDiscoveryOptions): Promise<IDiscoveredAccount[]> {
+  const coins      = opts.coins || [SupportedCoin.LISK];
+  const gapLimit   = typeof(opts.gapLimit) === 'undefined' ? 5 : opts.gapLimit;
+  const startIndex = opts.startIndex || 0;
+  if (typeof(opts.isUsed) !== 'function') {
+    throw new Error('isUsed predicate must be provided');
+  }
+  if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+    throw new Error('gapLimit must be a positive integer');
+  }
+
+  const found: IDiscoveredAccount[] = [];
+  for (const coin of coins) {
+    let gap = 0;
+    for (let index = startIndex; gap < gapLimit; index++) {
+      const account                = new LedgerAccount().coinIndex(coin).account(index);
+      const { publicKey, address } = await ledger.getPubKey(account);
+      const coinAddress            = coinRegistry.get(coin) ? deriveAddress(publicKey, coin) : address;
+      const discovered             = { account, address: coinAddress, coin, index, publicKey };
+      const used                   = await opts.isUsed(discovered);
+      if (used) {
+        found.push(discovered);
+        gap = 0;
+      } else {
+        gap++;
+      }
+      if (opts.onProgress) {
+        opts.onProgress({ ...discovered, gap, used });
+      }
+    }
+  }
+  return found;
+}
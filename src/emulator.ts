@@ -0,0 +1,287 @@
+import * as crc16 from 'crc/lib/crc16_ccitt';
+import * as nacl from 'tweetnacl';
+import { MAX_PATH_DEPTH } from './account';
+import { deriveAddress } from './address';
+import { coinRegistry } from './coinRegistry';
+import { hmacSha512, messageBytes, sha256, toBuffer } from './crypto';
+import { hexStatus, StatusWord } from './errors';
+import { ITransport } from './ledger';
+
+/**
+ * Options accepted by the emulator.
+ */
+export interface ILedgerEmulatorOptions {
+  /**
+   * Version reported by the 0x09 command. Defaults to 1.0.0
+   */
+  version?: string;
+  /**
+   * CoinID reported by the 0x09 command. Defaults to all
+   */
+  coinID?: string;
+  /**
+   * Forces the address suffix. If not provided, the suffix of the coinID app is used, D for the 'all' app
+   * as the real multi coin app does.
+   */
+  addressSuffix?: string;
+  /**
+   * Maximum payload the app is able to receive. Defaults to 2500 bytes.
+   */
+  maxPayloadSize?: number;
+  /**
+   * Maximum size of the prefixed message the app is able to sign. Defaults to 1000 bytes.
+   */
+  maxMessageSize?: number;
+  /**
+   * Called whenever the device would ask the user to confirm something.
+   * Resolve to false to emulate a user rejection. Defaults to always confirm.
+   */
+  confirm?: (request: IEmulatorConfirmRequest) => boolean | Promise<boolean>;
+}
+
+/**
+ * Describes what the emulated device is asking the user to confirm.
+ */
+export interface IEmulatorConfirmRequest {
+  command: 'pubKey' | 'signTX' | 'signMSG';
+  path: number[];
+  data?: Buffer;
+}
+
+interface ICommState {
+  expectedLength: number;
+  received: Buffer[];
+  receivedLength: number;
+  prevCRC: number;
+}
+
+/**
+ * Software emulator of the dPoS ledger app.
+ * It speaks the same protocol of the real app so that it can be used as a transport
+ * wherever a real device is not available (ex: CI).
+ * Keys are derived from the given seed using SLIP-0010 ed25519 derivation.
+ * @example
+ * ```javascript
+ *
+ * const emulator = new LedgerEmulator(Buffer.alloc(32).fill(1));
+ * const instance = new DposLedger(new CommHandler(emulator));
+ * ```
+ */
+export class LedgerEmulator implements ITransport {
+  private options: ILedgerEmulatorOptions;
+  private comm: ICommState = null;
+
+  /**
+   * @param {Buffer} seed master seed used to derive all keys.
+   * @param {ILedgerEmulatorOptions} options
+   */
+  constructor(private seed: Buffer, options: ILedgerEmulatorOptions = {}) {
+    if (!Buffer.isBuffer(seed) || seed.length < 16) {
+      throw new Error('Seed must be a buffer of at least 16 bytes');
+    }
+    this.options = {
+      coinID        : 'all',
+      confirm       : () => true,
+      maxMessageSize: 1000,
+      maxPayloadSize: 2500,
+      version       : '1.0.0',
+      ...options,
+    };
+  }
+
+  // tslint:disable-next-line no-empty
+  public setScrambleKey(key: string): void {
+  }
+
+  public async send(cla: number, ins: number, p1: number, p2: number, data: Buffer = Buffer.alloc(0)): Promise<Buffer> {
+    try {
+      if (cla !== 0xe0) {
+        throw statusError(StatusWord.CLA_NOT_SUPPORTED);
+      }
+      switch (ins) {
+        case 89:
+          return this.respond(this.startComm(data));
+        case 90:
+          return this.respond(this.continueComm(data));
+        case 91:
+          return this.respond(await this.closeComm());
+        default:
+          throw statusError(StatusWord.INS_NOT_SUPPORTED);
+      }
+    } catch (err) {
+      // Any failure resets the comm flow just like the device does.
+      this.comm = null;
+      throw err;
+    }
+  }
+
+  /**
+   * Derives the ed25519 keypair for the given path.
+   * @param {number[]} path array of bip32 indexes.
+   * @returns {nacl.SignKeyPair}
+   */
+  public deriveKeyPair(path: number[]): nacl.SignKeyPair {
+    let digest = hmacSha512(Buffer.from('ed25519 seed', 'utf8'), this.seed);
+    for (const index of path) {
+      const indexBuf = Buffer.alloc(4);
+      indexBuf.writeUInt32BE(index, 0);
+      digest = hmacSha512(
+        digest.slice(32),
+        Buffer.concat([Buffer.alloc(1), digest.slice(0, 32), indexBuf])
+      );
+    }
+    return nacl.sign.keyPair.fromSeed(digest.slice(0, 32));
+  }
+
+  private startComm(data: Buffer): Buffer[] {
+    if (data.length !== 2) {
+      throw statusError(StatusWord.INCORRECT_LENGTH);
+    }
+    const expectedLength = data.readUInt16BE(0);
+    if (expectedLength > this.options.maxPayloadSize) {
+      throw statusError(StatusWord.NOT_ENOUGH_SPACE);
+    }
+    this.comm = { expectedLength, received: [], receivedLength: 0, prevCRC: 0 };
+    return [];
+  }
+
+  private continueComm(data: Buffer): Buffer[] {
+    if (this.comm === null) {
+      throw statusError(StatusWord.CODE_NOT_INITIALIZED);
+    }
+    if (this.comm.receivedLength + data.length > this.comm.expectedLength) {
+      throw statusError(StatusWord.INCORRECT_LENGTH);
+    }
+    this.comm.received.push(data);
+    this.comm.receivedLength += data.length;
+
+    const curCRC     = crc16(data);
+    const curCRCBuf  = Buffer.alloc(2);
+    const prevCRCBuf = Buffer.alloc(2);
+    curCRCBuf.writeUInt16LE(curCRC, 0);
+    prevCRCBuf.writeUInt16LE(this.comm.prevCRC, 0);
+    this.comm.prevCRC = curCRC;
+    return [curCRCBuf, prevCRCBuf];
+  }
+
+  private async closeComm(): Promise<Buffer[]> {
+    if (this.comm === null || this.comm.receivedLength === 0
+      || this.comm.receivedLength !== this.comm.expectedLength) {
+      throw statusError(StatusWord.INCORRECT_DATA);
+    }
+    const payload = Buffer.concat(this.comm.received);
+    this.comm     = null;
+    return this.process(payload);
+  }
+
+  private async process(payload: Buffer): Promise<Buffer[]> {
+    switch (payload[0]) {
+      case 0x04:
+        return this.getPubKey(payload);
+      case 0x05:
+      case 0x06:
+        return this.sign(payload);
+      case 0x08:
+        return [Buffer.from('PONG', 'ascii')];
+      case 0x09:
+        return [Buffer.from(this.options.version, 'ascii'), Buffer.from(this.options.coinID, 'ascii')];
+      default:
+        throw statusError(StatusWord.INCORRECT_DATA);
+    }
+  }
+
+  private async getPubKey(payload: Buffer): Promise<Buffer[]> {
+    if (payload.length < 3) {
+      throw statusError(StatusWord.INCORRECT_DATA);
+    }
+    const path    = this.readPath(payload, 2);
+    const keyPair = this.deriveKeyPair(path);
+    if (payload[1] === 0x01) {
+      await this.askConfirmation({ command: 'pubKey', path });
+    }
+    const publicKey = toBuffer(keyPair.publicKey);
+    return [publicKey, Buffer.from(this.deriveAddress(publicKey), 'utf8')];
+  }
+
+  private async sign(payload: Buffer): Promise<Buffer[]> {
+    const path   = this.readPath(payload, 1);
+    let offset   = 2 + path.length * 4;
+    if (payload.length < offset + 3) {
+      throw statusError(StatusWord.INCORRECT_DATA);
+    }
+    const length = payload.readUInt16BE(offset);
+    offset += 3; // length + old hasRequesterPublicKey
+    const data   = payload.slice(offset);
+    if (data.length !== length) {
+      throw statusError(StatusWord.INCORRECT_DATA);
+    }
+
+    let hash: Buffer;
+    if (payload[0] === 0x05) {
+      // type + timestamp + senderPublicKey + recipient + amount.
+      if (data.length < 53 || data[0] > 4) {
+        throw statusError(StatusWord.INCORRECT_DATA);
+      }
+      hash = sha256(data);
+    } else {
+      const toSign = messageBytes(data);
+      if (toSign.length > this.options.maxMessageSize) {
+        throw statusError(StatusWord.INCORRECT_DATA);
+      }
+      hash = sha256(sha256(toSign));
+    }
+
+    await this.askConfirmation({ command: payload[0] === 0x05 ? 'signTX' : 'signMSG', path, data });
+    const { secretKey } = this.deriveKeyPair(path);
+    return [toBuffer(nacl.sign.detached(hash, secretKey))];
+  }
+
+  private readPath(payload: Buffer, offset: number): number[] {
+    const depth = payload[offset];
+    if (depth < 1 || depth > MAX_PATH_DEPTH || payload.length < offset + 1 + depth * 4) {
+      throw statusError(StatusWord.INCORRECT_DATA);
+    }
+    const path: number[] = [];
+    for (let i = 0; i < depth; i++) {
+      path.push(payload.readUInt32BE(offset + 1 + i * 4));
+    }
+    return path;
+  }
+
+  private deriveAddress(publicKey: Buffer): string {
+    const coin = this.options.coinID.toLowerCase() === 'all' ? undefined : coinRegistry.get(this.options.coinID);
+    return deriveAddress(publicKey, this.options.addressSuffix || (coin ? coin.addressSuffix : 'D'));
+  }
+
+  private async askConfirmation(request: IEmulatorConfirmRequest) {
+    if (!(await this.options.confirm(request))) {
+      throw statusError(StatusWord.CONDITIONS_NOT_SATISFIED);
+    }
+  }
+
+  /**
+   * Encodes the response the same way the app does and appends the 0x9000 status word.
+   */
+  private respond(elements: Buffer[]): Buffer {
+    const sw = Buffer.alloc(2);
+    sw.writeUInt16BE(StatusWord.OK, 0);
+    return Buffer.concat([
+      Buffer.from([elements.length]),
+      ...elements.map((el) => {
+        const lenBuf = Buffer.alloc(2);
+        lenBuf.writeUInt16LE(el.length, 0);
+        return Buffer.concat([lenBuf, el]);
+      }),
+      sw,
+    ]);
+  }
+}
+
+/**
+ * Builds an error resembling the ones thrown by ledger transports.
+ */
+function statusError(statusCode: number): Error {
+  const err = new Error(`Ledger device: emulated failure (${hexStatus(statusCode)})`);
+  err['statusCode'] = statusCode; // tslint:disable-line no-string-literal
+  return err;
+}
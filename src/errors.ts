@@ -0,0 +1,317 @@
+// tslint:disable max-classes-per-file
+/**
+ * Status words returned by the Ledger device (or by the dPoS app running on it).
+ */
+export enum StatusWord {
+  OK                       = 0x9000,
+  INCORRECT_LENGTH         = 0x6700,
+  SECURITY_STATUS          = 0x6982,
+  CONDITIONS_NOT_SATISFIED = 0x6985,
+  INCORRECT_DATA           = 0x6a80,
+  NOT_ENOUGH_SPACE         = 0x6a84,
+  INS_NOT_SUPPORTED        = 0x6d00,
+  CLA_NOT_SUPPORTED        = 0x6e00,
+  TECHNICAL_PROBLEM        = 0x6f00,
+  CODE_NOT_INITIALIZED     = 0x9802,
+  LOCKED_DEVICE            = 0x6804,
+  LOCKED_DEVICE_NEW        = 0x5515,
+}
+
+/**
+ * Base class of every error thrown by this library.
+ * statusCode holds the raw status word when the error originated on the device.
+ */
+export class LedgerError extends Error {
+  constructor(message: string, public statusCode?: number) {
+    super(message);
+    // Restore prototype chain as we're targeting es5.
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Thrown when the device answered with a status word not known to this library.
+ */
+export class DeviceStatusError extends LedgerError {
+  constructor(statusCode: number, message: string = 'Unexpected device status') {
+    super(`${message} (${hexStatus(statusCode)})`, statusCode);
+  }
+}
+
+/**
+ * User rejected the operation on the device.
+ */
+export class UserRejectedError extends DeviceStatusError {
+  constructor(statusCode: number = StatusWord.CONDITIONS_NOT_SATISFIED) {
+    super(statusCode, 'User rejected the operation on the device');
+  }
+}
+
+/**
+ * The dPoS app is not open on the device (dashboard or another app is running).
+ */
+export class AppNotOpenError extends DeviceStatusError {
+  constructor(statusCode: number = StatusWord.CLA_NOT_SUPPORTED) {
+    super(statusCode, 'dPoS app is not open on the device');
+  }
+}
+
+/**
+ * The device is locked and needs to be unlocked with the PIN.
+ */
+export class DeviceLockedError extends DeviceStatusError {
+  constructor(statusCode: number = StatusWord.SECURITY_STATUS) {
+    super(statusCode, 'Device is locked');
+  }
+}
+
+/**
+ * Payload exceeds what the app is able to handle.
+ */
+export class PayloadTooLargeError extends DeviceStatusError {
+  constructor(statusCode: number = StatusWord.NOT_ENOUGH_SPACE) {
+    super(statusCode, 'Payload is too large');
+  }
+}
+
+/**
+ * The app does not understand the instruction it received.
+ */
+export class UnknownCommandError extends DeviceStatusError {
+  constructor(statusCode: number = StatusWord.INS_NOT_SUPPORTED) {
+    super(statusCode, 'Unknown command');
+  }
+}
+
+/**
+ * The app refused the data it received (unknown command, unknown tx type, invalid message...).
+ */
+export class IncorrectDataError extends DeviceStatusError {
+  constructor(statusCode: number = StatusWord.INCORRECT_DATA) {
+    super(statusCode, 'Incorrect data');
+  }
+}
+
+/**
+ * More data than announced in the start comm packet was sent.
+ */
+export class IncorrectLengthError extends DeviceStatusError {
+  constructor(statusCode: number = StatusWord.INCORRECT_LENGTH) {
+    super(statusCode, 'Incorrect length');
+  }
+}
+
+/**
+ * Communication was continued or closed without being started first.
+ */
+export class CommNotInitializedError extends DeviceStatusError {
+  constructor(statusCode: number = StatusWord.CODE_NOT_INITIALIZED) {
+    super(statusCode, 'Communication was not initialized');
+  }
+}
+
+/**
+ * CRC reported by the device does not match with the one computed locally.
+ */
+export class CrcMismatchError extends LedgerError {
+  constructor(message: string, public expected: number, public received: number) {
+    super(message);
+  }
+}
+
+/**
+ * Device response does not respect the protocol definition.
+ */
+export class MalformedResponseError extends LedgerError {
+  constructor(message: string = 'Malformed response from device') {
+    super(message);
+  }
+}
+
+/**
+ * A pending command was dropped from the CommHandler queue before being sent.
+ */
+export class CommandDroppedError extends LedgerError {
+  constructor(message: string = 'Command was dropped from queue') {
+    super(message);
+  }
+}
+
+/**
+ * Payload would be rejected by the device as it exceeds one of its limits.
+ * It's thrown before anything gets sent to the device.
+ */
+export class LimitExceededError extends LedgerError {
+  constructor(public limitName: string, public limit: number, public actual: number) {
+    super(`${limitName} exceeds the limit: ${actual} > ${limit}`);
+  }
+}
+
+/**
+ * Bip32 path buffer is malformed: each level takes 4 bytes so its length must be a positive multiple of 4.
+ * It's thrown before anything gets sent to the device.
+ */
+export class InvalidPathError extends LedgerError {
+  constructor(public length: number) {
+    super(`Bip32 path buffer length must be a positive multiple of 4 bytes, got ${length}`);
+  }
+}
+
+/**
+ * Operation was aborted through its cancellation signal.
+ */
+export class OperationCancelledError extends LedgerError {
+  constructor(message: string = 'Operation was cancelled') {
+    super(message);
+  }
+}
+
+/**
+ * Operation took longer than the timeout configured for the given phase.
+ */
+export class OperationTimeoutError extends OperationCancelledError {
+  constructor(public phase: 'transfer' | 'confirmation', public timeout: number) {
+    super(`Timed out after ${timeout}ms during ${phase}`);
+  }
+}
+
+/**
+ * App running on the device is outside of the versions or coinIDs accepted by DposLedger.guard,
+ * or it does not support the requested command.
+ */
+export class UnsupportedAppError extends LedgerError {
+  constructor(message: string, public version: string, public coinID: string) {
+    super(message);
+  }
+}
+
+/**
+ * Account belongs to a coin different from the one the app was built for.
+ */
+export class CoinMismatchError extends LedgerError {
+  constructor(public coinID: string, public coin: number) {
+    super(`Account of coin ${coin} cannot be used with the ${coinID} app`);
+  }
+}
+
+/**
+ * Coin is not registered in the coinRegistry.
+ */
+export class UnknownCoinError extends LedgerError {
+  constructor(public coin: number | string) {
+    super(`Unknown coin ${coin}`);
+  }
+}
+
+/**
+ * LedgerSession was closed while the command was pending.
+ */
+export class SessionClosedError extends LedgerError {
+  constructor(message: string = 'Session was closed') {
+    super(message);
+  }
+}
+
+/**
+ * Address reported by the device does not match the one derived locally from the publicKey.
+ */
+export class AddressMismatchError extends LedgerError {
+  constructor(public expected: string, public received: string) {
+    super(`Address mismatch: derived ${expected} but device reported ${received}`);
+  }
+}
+
+/**
+ * Transaction is not valid and cannot be serialized or decoded.
+ */
+export class InvalidTransactionError extends LedgerError {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * A replayed session diverged from the recorded cassette.
+ */
+export class CassetteMismatchError extends LedgerError {
+  constructor(message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Account asked to co-sign a multisignature transaction is not a member of the keysgroup.
+ */
+export class NotKeysgroupMemberError extends LedgerError {
+  constructor(public publicKey: string) {
+    super(`${publicKey} is not a member of the multisignature keysgroup`);
+  }
+}
+
+/**
+ * A BridgeServer refused or failed to process a request. code is the JSON-RPC error code,
+ * remoteName the name of the error thrown on the bridge side, if any.
+ */
+export class BridgeError extends LedgerError {
+  constructor(message: string, public code?: number, public remoteName?: string) {
+    super(message);
+  }
+}
+
+const statusErrors: { [statusCode: number]: new (statusCode: number) => DeviceStatusError } = {
+  [StatusWord.CONDITIONS_NOT_SATISFIED]: UserRejectedError,
+  [StatusWord.CLA_NOT_SUPPORTED]       : AppNotOpenError,
+  [StatusWord.SECURITY_STATUS]         : DeviceLockedError,
+  [StatusWord.LOCKED_DEVICE]           : DeviceLockedError,
+  [StatusWord.LOCKED_DEVICE_NEW]       : DeviceLockedError,
+  [StatusWord.NOT_ENOUGH_SPACE]        : PayloadTooLargeError,
+  [StatusWord.INS_NOT_SUPPORTED]       : UnknownCommandError,
+  [StatusWord.INCORRECT_DATA]          : IncorrectDataError,
+  [StatusWord.INCORRECT_LENGTH]        : IncorrectLengthError,
+  [StatusWord.CODE_NOT_INITIALIZED]    : CommNotInitializedError,
+};
+
+/**
+ * Formats a status word the same way ledger transports do (ex: 0x6a80).
+ * @param {number} statusCode
+ * @returns {string}
+ */
+export function hexStatus(statusCode: number): string {
+  return `0x${`0000${statusCode.toString(16)}`.slice(-4)}`;
+}
+
+/**
+ * Extracts the status word from an error thrown by a transport.
+ * Handles both TransportStatusError (statusCode property) and older "Invalid status xxxx" messages.
+ * @param {any} err
+ * @returns {number} the status word or undefined if none could be found.
+ */
+export function statusCodeFromError(err: any): number {
+  if (err === null || typeof(err) !== 'object') {
+    return undefined;
+  }
+  if (typeof(err.statusCode) === 'number') {
+    return err.statusCode;
+  }
+  const match = /invalid status ([0-9a-f]{4})/i.exec(String(err.message));
+  return match ? parseInt(match[1], 16) : undefined;
+}
+
+/**
+ * Maps an error thrown by a transport to the corresponding typed error.
+ * Errors already mapped or without a status word are returned as they are.
+ * @param {any} err error thrown by the transport
+ * @returns {Error} mapped error
+ */
+export function mapTransportError(err: any): Error {
+  if (err instanceof LedgerError) {
+    return err;
+  }
+  const statusCode = statusCodeFromError(err);
+  if (typeof(statusCode) === 'undefined') {
+    return err;
+  }
+  const ErrorClass = statusErrors[statusCode] || DeviceStatusError;
+  return new ErrorClass(statusCode);
+}
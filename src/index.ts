@@ -1,5 +1,25 @@
 export * from './account';
+export * from './address';
+export * from './appVersion';
+export * from './bridgeClient';
+export * from './bridgeProtocol';
+export * from './cancellation';
+export * from './cassette';
+export * from './coinRegistry';
+export * from './commandQueue';
 export * from './commHandler';
+export * from './decoder';
+export * from './discovery';
+export * from './emulator';
+export * from './errors';
 export * from './library';
+export * from './limits';
+export * from './multisig';
+export * from './recordingTransport';
+export * from './replayTransport';
+export * from './session';
+export * from './transaction';
+export * from './verify';
+export * from './votes';
 export * from './IProgressListener';
 export * from './ledger';
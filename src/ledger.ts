@@ -20,4 +20,11 @@ export interface ITransport {
    * @returns {Promise<Buffer>}
    */
   send(cla: number, ins: number, p1: number, p2: number, data?: Buffer, statusList?: number[]): Promise<Buffer>;
+
+  /**
+   * Releases the underlying device. Optional: it's called, when available, by LedgerSession before
+   * recreating the transport.
+   * @returns {Promise<void>}
+   */
+  close?(): Promise<void>;
 }
@@ -1,5 +1,145 @@
 import { LedgerAccount } from './account';
-import { CommHandler } from './commHandler';
+import { deriveAddress } from './address';
+import {
+  AppCommand,
+  capabilitiesFor,
+  ISemVer,
+  IVersionRange,
+  limitsForVersion,
+  parseVersion,
+  satisfiesRange
+} from './appVersion';
+import { coinRegistry } from './coinRegistry';
+import { CommPriority } from './commandQueue';
+import { CommHandler, ICommandOptions } from './commHandler';
+import { messageBytes } from './crypto';
+import {
+  AddressMismatchError,
+  CoinMismatchError,
+  InvalidPathError,
+  InvalidTransactionError,
+  MalformedResponseError,
+  OperationCancelledError,
+  OperationTimeoutError,
+  UnsupportedAppError,
+  UserRejectedError
+} from './errors';
+import { IProgressEvent, IProgressListener } from './IProgressListener';
+import { assertWithinLimit, DEFAULT_LIMITS, ILedgerLimits, MAX_EXCHANGE_SIZE } from './limits';
+import { serializeTransaction, SignedTransaction, Transaction, transactionId } from './transaction';
+import { isHexOfSize } from './utils';
+
+/**
+ * Parsed information about the app running on the device.
+ */
+export interface IAppInfo {
+  /**
+   * Raw version string.
+   */
+  rawVersion: string;
+  version: ISemVer;
+  coinID: string;
+  commands: AppCommand[];
+  limits: ILedgerLimits;
+}
+
+/**
+ * Restricts the apps DposLedger accepts to talk with.
+ */
+export interface IAppGuard {
+  /**
+   * Accepted app versions.
+   */
+  versions?: IVersionRange;
+  /**
+   * Accepted coinIDs (case insensitive, ex: ['lisk', 'all']).
+   */
+  coinIDs?: string[];
+  /**
+   * Refuses accounts whose coin (second path level) differs from the app coinID. Apps with coinID 'all' accept
+   * any coin. Defaults to true.
+   */
+  matchAccountCoin?: boolean;
+}
+
+/**
+ * Signs the given transaction bytes (ex: a software wallet holding the second secret).
+ * Returns the signature as buffer or hex string.
+ */
+export type TransactionSigner = (bytes: Buffer) => Buffer | string | Promise<Buffer | string>;
+
+/**
+ * A transaction to be signed by signBatch.
+ */
+export interface IBatchItem {
+  account: LedgerAccount | Buffer;
+  /**
+   * Transaction object or transaction bytes.
+   */
+  tx: Transaction | Buffer;
+}
+
+/**
+ * Outcome of a batch item.
+ * - signed: the device signed it
+ * - rejected: the user rejected it on the device
+ * - failed: it failed for any other reason. See error
+ * - skipped: it was not sent to the device as the batch stopped earlier
+ */
+export type BatchItemStatus = 'signed' | 'rejected' | 'failed' | 'skipped';
+
+export interface IBatchItemResult {
+  index: number;
+  status: BatchItemStatus;
+  signature?: Buffer;
+  /**
+   * Signed transaction with its id, when the item was a transaction object.
+   */
+  transaction?: SignedTransaction;
+  error?: Error;
+}
+
+/**
+ * Overall progress of a batch.
+ */
+export interface IBatchProgress {
+  /**
+   * Index of the item being signed or just completed.
+   */
+  index: number;
+  total: number;
+  /**
+   * Number of items done (whatever their outcome).
+   */
+  completed: number;
+  /**
+   * Percentage (0-100) of the whole batch, including the progress of the current item.
+   */
+  percentage: number;
+  /**
+   * Progress of the current item. Not set when reporting a completed item.
+   */
+  item?: IProgressEvent;
+  /**
+   * Result of the item just completed.
+   */
+  result?: IBatchItemResult;
+}
+
+export interface IBatchOptions extends ICommandOptions {
+  /**
+   * Skip the remaining items after the first user rejection. Defaults to false.
+   */
+  stopOnRejection?: boolean;
+  /**
+   * Skip the remaining items after the first failure other than a rejection. Defaults to false.
+   */
+  stopOnError?: boolean;
+  /**
+   * Called on every progress event of each item and after each item completes.
+   */
+  onProgress?: (progress: IBatchProgress) => void;
+}
 
 /**
  * Communication Protocol class.
@@ -17,17 +157,75 @@ import { CommHandler } from './commHandler';
  * ```
  */
 export class DposLedger {
+  /**
+   * Limits payloads are validated against before being sent to the device.
+   */
+  public limits: ILedgerLimits;
+  /**
+   * Opt-in guard. When set, every command but version checks the app running on the device first and
+   * rejects with UnsupportedAppError or CoinMismatchError. App info is queried once and cached,
+   * see invalidateAppInfo.
+   * @example
+   * ```javascript
+   *
+   * instance.guard = { versions: { min: '1.0.0', max: '2.0.0' }, coinIDs: ['lisk'] };
+   * ```
+   */
+  public guard: IAppGuard = null;
+  private appInfoCache: Promise<IAppInfo> = null;
 
   /**
    * @param {CommHandler} commHandler communication handler
+   * @param {Partial<ILedgerLimits>} limits overrides of the default app limits.
+   */
+  constructor(private commHandler: CommHandler, limits: Partial<ILedgerLimits> = {}) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+  }
+
+  /**
+   * Queries the app version and uses the limits defined for it in the capability table.
+   * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
+   * @returns {Promise<ILedgerLimits>} the limits now in use.
+   */
+  public async detectLimits(opts: ICommandOptions = {}): Promise<ILedgerLimits> {
+    const { version } = await this.version(opts);
+    this.limits       = limitsForVersion(version);
+    return this.limits;
+  }
+
+  /**
+   * Queries the app version and returns it parsed along with the app capabilities.
+   * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
+   * @returns {Promise<IAppInfo>}
+   */
+  public async appInfo(opts: ICommandOptions = {}): Promise<IAppInfo> {
+    const { version, coinID }  = await this.version(opts);
+    const { commands, limits } = capabilitiesFor(version);
+    return {
+      coinID,
+      commands,
+      limits,
+      rawVersion: version,
+      version   : parseVersion(version),
+    };
+  }
+
+  /**
+   * Forgets the app info cached by the guard. Call it when the app on the device might have changed.
    */
-  constructor(private commHandler: CommHandler) {
+  public invalidateAppInfo(): void {
+    this.appInfoCache = null;
   }
 
   /**
    * Retrieves a publicKey associated to an account
    * @param {LedgerAccount|Buffer} account or bip32 buffer
    * @param {boolean} showOnLedger ask ledger to show the address.
+   * @param {boolean} verifyAddress derive the address locally and throw AddressMismatchError
+   * if it differs from the one reported by the device. Only the numeric part is compared as the suffix
+   * depends on the app (ex: the multi coin app always uses D).
+   * Throws LimitExceededError if the path is deeper than the limits allow.
+   * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
    * @returns {Promise<{publicKey: string, account:string}>}
    * @example
    * ```javascript
@@ -39,17 +237,33 @@ export class DposLedger {
    *   });
    * ```
    */
-  // tslint:disable-next-line max-line-length
-  public async getPubKey(account: LedgerAccount | Buffer, showOnLedger: boolean = false): Promise<{ publicKey: string, address: string }> {
-    const pathBuf = Buffer.isBuffer(account) ? account : account.derivePath();
+  public async getPubKey(account: LedgerAccount | Buffer,
+                         showOnLedger: boolean = false,
+                         verifyAddress: boolean = false,
+                         opts: ICommandOptions = {}): Promise<{ publicKey: string, address: string }> {
+    const pathBuf = this.validatePath(account);
+    if (this.guard) {
+      await this.enforceGuard('getPubKey', pathBuf, opts);
+    }
     const resp    = await this.commHandler.exchange([
       0x04,
       showOnLedger ? 0x1 : 0x0,
       (pathBuf.length / 4),
       pathBuf,
-    ]);
+    ], { ...opts, priority: CommPriority.NORMAL });
 
     const [publicKey, address] = resp;
+    if (!publicKey || !address) {
+      throw new MalformedResponseError('Missing publicKey or address in response');
+    }
+
+    if (verifyAddress) {
+      const received = address.toString('utf8');
+      const expected = deriveAddress(publicKey, /[A-Z]*$/.exec(received)[0]);
+      if (expected !== received) {
+        throw new AddressMismatchError(expected, received);
+      }
+    }
 
     return {
       address  : address.toString('utf8'),
@@ -58,32 +272,155 @@ export class DposLedger {
   }
 
   /**
-   * Signs a transaction. Transaction must be provided as a buffer using getBytes.
+   * Signs a transaction. Transaction can be provided either as a transaction object
+   * or as a buffer using getBytes.
    * @see https://github.com/vekexasia/dpos-offline/blob/master/src/trxTypes/BaseTx.ts#L52
    * @param {LedgerAccount | Buffer} account or raw bip32 buffer
-   * @param {Buffer} buff buffer containing the bytes of a transaction
-   * @param {boolean} hasRequesterPKey use true if the tx also includes a requesterPublicKey.
-   * This cannot be derived using static analysis of the content included in the bytes.
+   * @param {Buffer | Transaction} tx transaction object or buffer containing the bytes of a transaction
+   * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
    * @returns {Promise<Buffer>} signature.
    * @example
    * ```javascript
    *
-   * instance.signTX(account, transaction.getBytes(), false)
+   * instance.signTX(account, transaction.getBytes())
    *   .then((signature) => {
    *     console.log('Signature is: ', signature.toString('hex'));
    *   });
    * ```
    */
-  public signTX(account: LedgerAccount | Buffer, buff: Buffer) {
-    return this.sign(0x05, account, buff);
+  public async signTX(account: LedgerAccount | Buffer, tx: Buffer | Transaction, opts: ICommandOptions = {}) {
+    return this.sign(0x05, account, Buffer.isBuffer(tx) ? tx : serializeTransaction(tx), opts);
+  }
+
+  /**
+   * Signs a transaction object and returns it along with the hex signature and the id computed from the
+   * signed bytes. signature and signSignature already in tx are discarded.
+   * Use toNodeTransaction to get the JSON to broadcast.
+   * @param {LedgerAccount | Buffer} account or raw bip32 buffer
+   * @param {Transaction} tx transaction object
+   * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
+   * @returns {Promise<SignedTransaction>} a copy of the transaction including signature and id.
+   * @example
+   * ```javascript
+   *
+   * const signed = await instance.signTransaction(account, tx);
+   * console.log(signed.id, signed.signature);
+   * ```
+   */
+  public async signTransaction(account: LedgerAccount | Buffer, tx: Transaction,
+                               opts: ICommandOptions = {}): Promise<SignedTransaction> {
+    const unsigned  = { ...tx } as Transaction;
+    delete unsigned.signature;
+    delete unsigned.signSignature;
+    const signature = (await this.signTX(account, unsigned, opts)).toString('hex');
+    const signed    = { ...unsigned, signature } as Transaction;
+    return { ...signed, id: transactionId(signed) } as SignedTransaction;
+  }
+
+  /**
+   * Signs a transaction of an account having a second signature. The transaction gets signed by account,
+   * the signature is appended and the resulting bytes get signed by secondSigner.
+   * signature and signSignature already in tx are discarded.
+   * @param {LedgerAccount | Buffer} account or raw bip32 buffer of the primary key
+   * @param {LedgerAccount | TransactionSigner} secondSigner account of the second key or a function signing
+   * the bytes with it.
+   * @param {Transaction} tx transaction object
+   * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
+   * @returns {Promise<SignedTransaction>} the fully signed transaction along with its id.
+   * @example
+   * ```javascript
+   *
+   * const signed = await instance.signTXWithSecondSignature(account, new LedgerAccount().account(1), tx);
+   * console.log(signed.id, signed.signature, signed.signSignature);
+   * ```
+   */
+  public async signTXWithSecondSignature(account: LedgerAccount | Buffer,
+                                         secondSigner: LedgerAccount | Buffer | TransactionSigner,
+                                         tx: Transaction,
+                                         opts: ICommandOptions = {}): Promise<SignedTransaction> {
+    const signed = await this.signTransaction(account, tx, opts);
+    const bytes  = serializeTransaction(signed);
+
+    const second        = typeof(secondSigner) === 'function' ?
+      await secondSigner(bytes) :
+      await this.signTX(secondSigner, bytes, opts);
+    const signSignature = Buffer.isBuffer(second) ? second.toString('hex') : second;
+    if (!isHexOfSize(signSignature, 64)) {
+      throw new InvalidTransactionError('Second signer must return a 64 bytes signature');
+    }
+    const full = { ...signed, signSignature } as SignedTransaction;
+    return { ...full, id: transactionId(full) } as SignedTransaction;
+  }
+
+  /**
+   * Signs many transactions in sequence. It never rejects because of a single item: each item gets its own
+   * signed, rejected, failed or skipped result. Cancelling through opts.signal skips the remaining items.
+   * @param {IBatchItem[]} items accounts and transactions to sign.
+   * @param {IBatchOptions} opts stop conditions, progress callback, cancellation signal and timeouts.
+   * @returns {Promise<IBatchItemResult[]>} results in the same order of items.
+   * @example
+   * ```javascript
+   *
+   * const results = await instance.signBatch(payouts.map((tx) => ({ account, tx })), {
+   *   onProgress     : ({ percentage }) => console.log(`${percentage}%`),
+   *   stopOnRejection: true,
+   * });
+   * const signed = results.filter((r) => r.status === 'signed').map((r) => r.transaction);
+   * ```
+   */
+  public async signBatch(items: IBatchItem[], opts: IBatchOptions = {}): Promise<IBatchItemResult[]> {
+    const { stopOnRejection, stopOnError, onProgress, progressListener, ...commandOpts } = opts;
+
+    const total                       = items.length;
+    const results: IBatchItemResult[] = [];
+    const report                      = (progress: IBatchProgress) => onProgress && onProgress(progress);
+    let stopped                       = false;
+
+    for (let index = 0; index < total; index++) {
+      if (stopped || (opts.signal && opts.signal.aborted)) {
+        results.push({ index, status: 'skipped' });
+        continue;
+      }
+      const { account, tx } = items[index];
+      const itemOpts        = {
+        ...commandOpts,
+        progressListener: this.batchItemListener(progressListener, (event) => report({
+          completed : index,
+          index,
+          item      : event,
+          percentage: (index + event.percentage / 100) * 100 / total,
+          total,
+        })),
+      };
+
+      let result: IBatchItemResult;
+      try {
+        if (Buffer.isBuffer(tx)) {
+          result = { index, signature: await this.signTX(account, tx, itemOpts), status: 'signed' };
+        } else {
+          const transaction = await this.signTransaction(account, tx, itemOpts);
+          const signature   = Buffer.from(transaction.signature, 'hex');
+          result            = { index, signature, status: 'signed', transaction };
+        }
+      } catch (error) {
+        const rejected = error instanceof UserRejectedError;
+        result         = { error, index, status: rejected ? 'rejected' : 'failed' };
+        stopped        = error instanceof OperationCancelledError || (rejected ? !!stopOnRejection : !!stopOnError);
+      }
+      results.push(result);
+      report({ completed: index + 1, index, percentage: (index + 1) * 100 / total, result, total });
+    }
+    return results;
   }
 
   /**
    * Signs a message. The message can be passed as a string or buffer.
    * Note that if buffer contains "non-printable" characters, then the ledger will probably have some issues
-   * Displaying the message to the user.
+   * Displaying the message to the user. Use previewMessage to know in advance what the device will show.
+   * Throws LimitExceededError, without contacting the device, if the prefixed message exceeds limits.maxMessageSize
    * @param {LedgerAccount | Buffer} account or raw bip32 buffer
    * @param {string | Buffer} what the message to sign
+   * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
    * @returns {Promise<Buffer>} the "non-detached" signature.
    * Signature goodness can be verified using sodium. See tests.
    * @example
@@ -95,13 +432,15 @@ export class DposLedger {
    *   });
    * ```
    */
-  public async signMSG(account: LedgerAccount | Buffer, what: string | Buffer) {
+  public async signMSG(account: LedgerAccount | Buffer, what: string | Buffer, opts: ICommandOptions = {}) {
     const buffer: Buffer = typeof(what) === 'string' ? new Buffer(what, 'utf8') : what;
-    return this.sign(0x06, account, buffer);
+    assertWithinLimit('Message size', this.limits.maxMessageSize, messageBytes(buffer).length);
+    return this.sign(0x06, account, buffer, opts);
   }
 
   /**
    * Gets Ledger App Version
+   * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
    * @returns {Promise<object>} see example
    * @example
    * ```javascript
@@ -113,8 +452,11 @@ export class DposLedger {
    *   });
    * ```
    */
-  public async version(): Promise<{ version: string, coinID: string }> {
-    const [version, coinID] = await this.commHandler.exchange(0x09);
+  public async version(opts: ICommandOptions = {}): Promise<{ version: string, coinID: string }> {
+    const [version, coinID] = await this.commHandler.exchange(0x09, { ...opts, priority: CommPriority.NORMAL });
+    if (!version || !coinID) {
+      throw new MalformedResponseError('Missing version or coinID in response');
+    }
     return {
       coinID : coinID.toString('ascii'),
       version: version.toString('ascii'),
@@ -123,29 +465,45 @@ export class DposLedger {
 
   /**
    * Simple ping utility. It won't throw if ping suceeded.
+   * Pings are queued with background priority so they never delay user operations.
+   * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
    * @returns {Promise<void>}
    */
-  public async ping(): Promise<void> {
-    const [res] = await this.commHandler.exchange(0x08);
-    if (res.toString('ascii') !== 'PONG') {
-      throw new Error('Didnt receive PONG');
+  public async ping(opts: ICommandOptions = {}): Promise<void> {
+    if (this.guard) {
+      await this.enforceGuard('ping', null, opts);
+    }
+    const [res] = await this.commHandler.exchange(0x08, { ...opts, priority: CommPriority.BACKGROUND });
+    if (!Buffer.isBuffer(res) || res.toString('ascii') !== 'PONG') {
+      throw new MalformedResponseError('Didnt receive PONG');
     }
   }
 
   /**
    * Raw sign protocol utility. It will handle signature of both msg and txs.
+   * Path and payload size are validated against limits before contacting the device.
    * @param {number} signType type of signature. 0x05 for txs, 0x06 for messages.
    * @param {LedgerAccount|Buffer} account acount or bip32 buffer
    * @param {Buffer} buff buffer to sign
-   * @param {boolean} hasRequesterPKey if it has a requesterpublickey (used only in tx signing mode)
+   * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
    * @returns {Promise<Buffer>} the signature
    */
   protected async sign(
     signType: number,
     account: LedgerAccount | Buffer,
-    buff: Buffer): Promise<Buffer> {
+    buff: Buffer,
+    opts: ICommandOptions = {}): Promise<Buffer> {
 
-    const pathBuf    = Buffer.isBuffer(account) ? account : account.derivePath();
+    const pathBuf    = this.validatePath(account);
+    if (this.guard) {
+      await this.enforceGuard(signType === 0x05 ? 'signTX' : 'signMSG', pathBuf, opts);
+    }
+    // sign type + path depth + path + length + old hasRequesterPubKey + data
+    assertWithinLimit(
+      'Payload size',
+      Math.min(this.limits.maxPayloadSize, MAX_EXCHANGE_SIZE),
+      1 + 1 + pathBuf.length + 2 + 1 + buff.length
+    );
     const buffLength = new Buffer(2);
     buffLength.writeUInt16BE(buff.length, 0);
     const args        = await this.commHandler.exchange([
@@ -158,9 +516,136 @@ export class DposLedger {
       0x00, // Old hasRequesterPubKey
       // data
       buff,
-    ]);
+    ], { ...opts, priority: CommPriority.USER });
     const [signature] = args;
+    if (!signature) {
+      throw new MalformedResponseError('Missing signature in response');
+    }
     return signature;
   }
 
+  /**
+   * Derives the bip32 path buffer validating its depth against limits.
+   * Throws InvalidPathError if the buffer is malformed, LimitExceededError if it's too deep.
+   * @param {LedgerAccount | Buffer} account or raw bip32 buffer
+   * @returns {Buffer} the path buffer
+   */
+  protected validatePath(account: LedgerAccount | Buffer): Buffer {
+    const pathBuf = Buffer.isBuffer(account) ? account : account.derivePath();
+    if (pathBuf.length === 0 || pathBuf.length % 4 !== 0) {
+      throw new InvalidPathError(pathBuf.length);
+    }
+    assertWithinLimit('Path depth', this.limits.maxPathDepth, pathBuf.length / 4);
+    return pathBuf;
+  }
+
+  /**
+   * Enforces the guard against the app running on the device.
+   * @param {AppCommand} command command about to be sent
+   * @param {Buffer} pathBuf path of the account the command is about (null if none)
+   * @param {ICommandOptions} opts
+   */
+  protected async enforceGuard(command: AppCommand, pathBuf: Buffer, opts: ICommandOptions): Promise<void> {
+    if (opts.signal && opts.signal.aborted) {
+      throw new OperationCancelledError();
+    }
+    if (this.appInfoCache === null) {
+      // Concurrent commands share the same version query. It runs without the signal, timeouts and listener of
+      // the caller that started it: each caller gives up on its own. Failed queries are not cached.
+      const pending     = this.appInfo();
+      this.appInfoCache = pending;
+      pending.catch(() => {
+        if (this.appInfoCache === pending) {
+          this.appInfoCache = null;
+        }
+      });
+    }
+    const { coinID, commands, rawVersion, version } = await this.awaitShared(this.appInfoCache, opts);
+    const guard                                     = this.guard;
+    if (guard.versions && !satisfiesRange(version, guard.versions)) {
+      throw new UnsupportedAppError(`App version ${rawVersion} is not supported`, rawVersion, coinID);
+    }
+    if (guard.coinIDs && !guard.coinIDs.some((c) => c.toLowerCase() === coinID.toLowerCase())) {
+      throw new UnsupportedAppError(`App coinID ${coinID} is not supported`, rawVersion, coinID);
+    }
+    if (commands.indexOf(command) === -1) {
+      throw new UnsupportedAppError(`Command ${command} is not supported by app ${rawVersion}`, rawVersion, coinID);
+    }
+    if (pathBuf !== null && guard.matchAccountCoin !== false && coinID.toLowerCase() !== 'all') {
+      const coin    = this.coinOfPath(pathBuf);
+      const appCoin = coinRegistry.get(coinID);
+      if (!appCoin || appCoin.slip44 !== coin) {
+        throw new CoinMismatchError(coinID, coin);
+      }
+    }
+  }
+
+  /**
+   * Awaits a promise shared with other callers. The returned promise rejects with OperationCancelledError when
+   * opts.signal aborts, or with OperationTimeoutError after opts.transferTimeout ms, leaving the shared work as is.
+   * @param {Promise<T>} shared
+   * @param {ICommandOptions} opts
+   * @returns {Promise<T>}
+   */
+  private awaitShared<T>(shared: Promise<T>, opts: ICommandOptions): Promise<T> {
+    const { signal, transferTimeout } = opts;
+    if (!signal && !(transferTimeout > 0)) {
+      return shared;
+    }
+    return new Promise<T>((resolve, reject) => {
+      let timer: any = null;
+      const settle   = (fn: (value: any) => void, value: any) => {
+        clearTimeout(timer);
+        if (signal) {
+          signal.removeEventListener('abort', onAbort);
+        }
+        fn(value);
+      };
+      const onAbort  = () => settle(reject, new OperationCancelledError());
+      if (signal) {
+        signal.addEventListener('abort', onAbort);
+      }
+      if (transferTimeout > 0) {
+        timer = setTimeout(
+          () => settle(reject, new OperationTimeoutError('transfer', transferTimeout)),
+          transferTimeout
+        );
+      }
+      shared.then((value) => settle(resolve, value), (err) => settle(reject, err));
+    });
+  }
+
+  /**
+   * Listener used for each batch item. Notifications are forwarded to listener calling its methods on it, so that
+   * class based listeners keep working, while progress events are forwarded to onProgress as well.
+   * @param {IProgressListener} listener per call listener given to signBatch, if any.
+   * @param {(event: IProgressEvent) => void} onProgress
+   * @returns {IProgressListener}
+   */
+  private batchItemListener(listener: IProgressListener,
+                            onProgress: (event: IProgressEvent) => void): IProgressListener {
+    return {
+      onChunkProcessed: (chunk) => listener && listener.onChunkProcessed && listener.onChunkProcessed(chunk),
+      onEnd           : () => listener && listener.onEnd && listener.onEnd(),
+      onProgress      : (event) => {
+        if (listener && listener.onProgress) {
+          listener.onProgress(event);
+        }
+        onProgress(event);
+      },
+      onRetry         : (attempt, error, delay) => listener && listener.onRetry &&
+        listener.onRetry(attempt, error, delay),
+      onStart         : () => listener && listener.onStart && listener.onStart(),
+    };
+  }
+
+  /**
+   * @param {Buffer} pathBuf
+   * @returns {number} coin index (second level of the path) or -1 if path is too short.
+   */
+  private coinOfPath(pathBuf: Buffer): number {
+    // tslint:disable-next-line no-bitwise
+    return pathBuf.length >= 8 ? pathBuf.readUInt32BE(4) & 0x7fffffff : -1;
+  }
+
 }
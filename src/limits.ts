@@ -0,0 +1,57 @@
+import { MAX_PATH_DEPTH } from './account';
+import { LimitExceededError } from './errors';
+
+/**
+ * Limits enforced by the ledger app. Payloads exceeding them are rejected before reaching the device.
+ */
+export interface ILedgerLimits {
+  /**
+   * Maximum size of the payload of a single command (command byte, path, headers and data).
+   */
+  maxPayloadSize: number;
+  /**
+   * Maximum size of the prefixed message signed by signMSG: varint(prefix.length) + prefix + varint(msg.length) + msg
+   */
+  maxMessageSize: number;
+  /**
+   * Maximum number of levels of the bip32 path.
+   */
+  maxPathDepth: number;
+}
+
+/**
+ * Hard limit of the comm protocol: payload length is sent as a 16 bits unsigned integer.
+ */
+export const MAX_EXCHANGE_SIZE = 65535;
+
+/**
+ * Limits of the app versions not listed in versionLimits.
+ */
+export const DEFAULT_LIMITS: ILedgerLimits = {
+  maxMessageSize: 1000,
+  maxPathDepth  : MAX_PATH_DEPTH,
+  maxPayloadSize: 2500,
+};
+
+/**
+ * Overrides of the limits by exact app version (ex: '1.0.0'). They take precedence over the capability table.
+ * @example
+ * ```javascript
+ *
+ * versionLimits['1.1.0'] = { maxPayloadSize: 4000 };
+ * await instance.detectLimits();
+ * ```
+ */
+export const versionLimits: { [version: string]: Partial<ILedgerLimits> } = {};
+
+/**
+ * Throws LimitExceededError if actual is greater than limit.
+ * @param {string} limitName name used in the error message (ex: Payload size)
+ * @param {number} limit
+ * @param {number} actual
+ */
+export function assertWithinLimit(limitName: string, limit: number, actual: number): void {
+  if (actual > limit) {
+    throw new LimitExceededError(limitName, limit, actual);
+  }
+}
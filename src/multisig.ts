@@ -0,0 +1,148 @@
+import { LedgerAccount } from './account';
+import { ICommandOptions } from './commHandler';
+import { InvalidTransactionError, NotKeysgroupMemberError } from './errors';
+import { DposLedger } from './library';
+import { serializeTransaction, Transaction, TransactionType } from './transaction';
+import { verifyTransactionSignature } from './verify';
+
+/**
+ * Members and threshold of a multisignature account.
+ */
+export interface IMultisigGroup {
+  /**
+   * Public keys of the members, compared case insensitively. '+' prefixed entries, as found in keysgroup assets,
+   * are accepted.
+   */
+  keysgroup: string[];
+  /**
+   * Number of co-signatures needed.
+   */
+  min: number;
+}
+
+/**
+ * A transaction collecting co-signatures.
+ */
+export type MultisigTransaction = Transaction & { signatures?: string[] };
+
+/**
+ * Co-signatures collected so far by a transaction.
+ */
+export interface IMultisigStatus {
+  /**
+   * Members whose valid co-signature is in signatures, in keysgroup order.
+   */
+  signers: string[];
+  /**
+   * Members that did not co-sign yet, in keysgroup order.
+   */
+  missing: string[];
+  required: number;
+  /**
+   * true once at least required members co-signed.
+   */
+  complete: boolean;
+}
+
+/**
+ * Result of coSignTransaction.
+ */
+export interface ICoSignResult extends IMultisigStatus {
+  /**
+   * Copy of the transaction including the new co-signature.
+   */
+  transaction: MultisigTransaction;
+  /**
+   * Co-signature (hex) of the account.
+   */
+  signature: string;
+  publicKey: string;
+}
+
+/**
+ * Computes which members already co-signed the transaction. Signatures not matching any member are ignored.
+ * @param {MultisigTransaction} tx transaction, already signed by the sender (or requester).
+ * @param {IMultisigGroup} group multisignature account. Defaults, for multisignature registrations,
+ * to the asset keysgroup where every member has to co-sign.
+ * @returns {IMultisigStatus}
+ */
+export function multisigStatus(tx: MultisigTransaction, group?: IMultisigGroup): IMultisigStatus {
+  const { keysgroup, min } = resolveGroup(tx, group);
+  const signatures         = tx.signatures || [];
+  const signers            = keysgroup.filter((publicKey) => signatures
+    .some((signature) => verifyTransactionSignature(tx, signature, publicKey, { skipSignature: true })));
+  return {
+    complete: signers.length >= min,
+    missing : keysgroup.filter((publicKey) => signers.indexOf(publicKey) === -1),
+    required: min,
+    signers,
+  };
+}
+
+/**
+ * Co-signs a pending multisignature transaction as a keysgroup member and appends the co-signature to its
+ * signatures. Co-signatures cover the transaction bytes without signature and signSignature, requesterPublicKey
+ * included. If the account already co-signed, the transaction is returned as it is without contacting the device.
+ * Throws NotKeysgroupMemberError if the account is not a member of the group.
+ * @param {DposLedger} ledger
+ * @param {LedgerAccount} account member account
+ * @param {MultisigTransaction} tx transaction, already signed by the sender (or requester).
+ * @param {IMultisigGroup} group multisignature account. Can be omitted for multisignature registrations.
+ * @param {ICommandOptions} opts cancellation signal, timeouts and progress listener.
+ * @returns {Promise<ICoSignResult>}
+ * @example
+ * ```javascript
+ *
+ * let pending = signedBySender;
+ * for (const member of [account1, account2]) {
+ *   const { transaction, complete } = await coSignTransaction(instance, member, pending, { keysgroup, min: 2 });
+ *   pending = transaction;
+ * }
+ * ```
+ */
+export async function coSignTransaction(ledger: DposLedger,
+                                        account: LedgerAccount,
+                                        tx: MultisigTransaction,
+                                        group?: IMultisigGroup,
+                                        opts: ICommandOptions = {}): Promise<ICoSignResult> {
+  const resolved = resolveGroup(tx, group);
+  if (!tx.signature) {
+    throw new InvalidTransactionError('Transaction must be signed by the sender before being co-signed');
+  }
+  const { publicKey } = await ledger.getPubKey(account, false, false, opts);
+  if (resolved.keysgroup.indexOf(publicKey) === -1) {
+    throw new NotKeysgroupMemberError(publicKey);
+  }
+
+  const signatures = tx.signatures || [];
+  const existing   = signatures
+    .filter((s) => verifyTransactionSignature(tx, s, publicKey, { skipSignature: true }))[0];
+  if (existing) {
+    return { ...multisigStatus(tx, resolved), publicKey, signature: existing, transaction: tx };
+  }
+
+  const signature   = (await ledger.signTX(account, serializeTransaction(tx, { skipSignature: true }), opts))
+    .toString('hex');
+  const transaction = { ...tx, signatures: [...signatures, signature] } as MultisigTransaction;
+  return { ...multisigStatus(transaction, resolved), publicKey, signature, transaction };
+}
+
+function resolveGroup(tx: MultisigTransaction, group?: IMultisigGroup): IMultisigGroup {
+  if (!group) {
+    if (tx.type !== TransactionType.MULTISIGNATURE) {
+      throw new InvalidTransactionError('Multisignature group is required for non registration transactions');
+    }
+    const keysgroup = tx.asset && tx.asset.multisignature ? tx.asset.multisignature.keysgroup : [];
+    group           = { keysgroup, min: Array.isArray(keysgroup) ? keysgroup.length : 0 };
+  }
+  if (!Array.isArray(group.keysgroup) || group.keysgroup.length === 0) {
+    throw new InvalidTransactionError('Multisignature keysgroup must not be empty');
+  }
+  if (!Number.isInteger(group.min) || group.min < 1 || group.min > group.keysgroup.length) {
+    throw new InvalidTransactionError('Multisignature min must be between 1 and the keysgroup size');
+  }
+  return {
+    keysgroup: group.keysgroup.map((key) => key.replace(/^\+/, '').toLowerCase()),
+    min      : group.min,
+  };
+}
@@ -0,0 +1,46 @@
+import { ICassette, ICassetteInteraction } from './cassette';
+import { statusCodeFromError } from './errors';
+import { ITransport } from './ledger';
+
+/**
+ * Transport decorator that records every exchange with the wrapped transport.
+ * @example
+ * ```javascript
+ *
+ * const recorder = new RecordingTransport(await TransportNodeHid.create());
+ * const instance = new DposLedger(new CommHandler(recorder));
+ * await instance.getPubKey(account);
+ * saveCassette('./getPubKey.json', recorder.cassette);
+ * ```
+ */
+export class RecordingTransport implements ITransport {
+  public readonly cassette: ICassette = { version: 1, interactions: [] };
+
+  /**
+   * @param {ITransport} transport the transport to record.
+   */
+  constructor(private transport: ITransport) {
+  }
+
+  public setScrambleKey(key: string): void {
+    this.transport.setScrambleKey(key);
+  }
+
+  public send(cla: number, ins: number, p1: number, p2: number, data?: Buffer,
+              statusList?: number[]): Promise<Buffer> {
+    const interaction: ICassetteInteraction = {
+      request: { cla, ins, p1, p2, data: Buffer.isBuffer(data) ? data.toString('hex') : null },
+    };
+    this.cassette.interactions.push(interaction);
+    // Forward exactly the arguments we received.
+    return this.transport.send.apply(this.transport, arguments)
+      .then((response: Buffer) => {
+        interaction.response = response.toString('hex');
+        return response;
+      })
+      .catch((err) => {
+        interaction.error = { message: err.message, statusCode: statusCodeFromError(err) };
+        throw err;
+      });
+  }
+}
@@ -0,0 +1,66 @@
+import { ICassette } from './cassette';
+import { CassetteMismatchError } from './errors';
+import { ITransport } from './ledger';
+
+/**
+ * Transport that serves a recorded cassette back. It throws CassetteMismatchError
+ * as soon as the requests diverge from what was recorded.
+ */
+export class ReplayTransport implements ITransport {
+  private position: number = 0;
+
+  /**
+   * @param {ICassette} cassette recorded session.
+   */
+  constructor(private cassette: ICassette) {
+    if (!cassette || cassette.version !== 1 || !Array.isArray(cassette.interactions)) {
+      throw new Error('Invalid cassette');
+    }
+  }
+
+  /**
+   * Number of interactions not replayed yet.
+   */
+  get remaining(): number {
+    return this.cassette.interactions.length - this.position;
+  }
+
+  // tslint:disable-next-line no-empty
+  public setScrambleKey(key: string): void {
+  }
+
+  public async send(cla: number, ins: number, p1: number, p2: number, data?: Buffer): Promise<Buffer> {
+    const index       = this.position;
+    const interaction = this.cassette.interactions[index];
+    if (!interaction) {
+      throw new CassetteMismatchError(`Unexpected request #${index}: cassette has no more interactions`);
+    }
+    const actual = { cla, ins, p1, p2, data: Buffer.isBuffer(data) ? data.toString('hex') : null };
+    for (const key of Object.keys(actual)) {
+      if (actual[key] !== interaction.request[key]) {
+        throw new CassetteMismatchError(
+          `Request #${index} diverged on ${key}: expected ${interaction.request[key]}, got ${actual[key]}`
+        );
+      }
+    }
+    this.position++;
+
+    if (interaction.error) {
+      const err = new Error(interaction.error.message);
+      if (typeof(interaction.error.statusCode) === 'number') {
+        err['statusCode'] = interaction.error.statusCode; // tslint:disable-line no-string-literal
+      }
+      throw err;
+    }
+    return new Buffer(interaction.response, 'hex');
+  }
+
+  /**
+   * Throws if not every recorded interaction was replayed.
+   */
+  public assertDone() {
+    if (this.remaining !== 0) {
+      throw new CassetteMismatchError(`${this.remaining} recorded interactions were not replayed`);
+    }
+  }
+}
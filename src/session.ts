@@ -0,0 +1,417 @@
+import { IAbortSignal } from './cancellation';
+import { CommHandler } from './commHandler';
+import {
+  AppNotOpenError,
+  CommandDroppedError,
+  DeviceLockedError,
+  OperationCancelledError,
+  SessionClosedError
+} from './errors';
+import { ITransport } from './ledger';
+import { DposLedger } from './library';
+
+/**
+ * States of a LedgerSession.
+ */
+export enum SessionState {
+  /**
+   * Transport is being created.
+   */
+  CONNECTING   = 'connecting',
+  CONNECTED    = 'connected',
+  /**
+   * Device is unplugged or the transport died.
+   */
+  DISCONNECTED = 'disconnected',
+  /**
+   * Device is locked and waits for the PIN.
+   */
+  LOCKED       = 'locked',
+  /**
+   * Device is connected but the dPoS app is not open.
+   */
+  APP_CLOSED   = 'appClosed',
+  /**
+   * Session was closed and cannot be used anymore.
+   */
+  CLOSED       = 'closed',
+}
+
+/**
+ * Called whenever the session state changes.
+ * @param {SessionState} state the new state
+ * @param {SessionState} previous the previous state
+ * @param {Error} error the error that caused the change, if any.
+ */
+export type SessionStateListener = (state: SessionState, previous: SessionState, error?: Error) => void;
+
+export interface ISessionOptions {
+  /**
+   * ms between health check pings. 0 disables them. Defaults to 5000
+   */
+  pingInterval?: number;
+  /**
+   * ms the device has to answer the pings sent while connecting and by health checks before being considered
+   * disconnected. 0 disables it. Defaults to 5000
+   */
+  pingTimeout?: number;
+  /**
+   * ms waited before the first reconnection attempt. It doubles at each failed attempt. Defaults to 500
+   */
+  reconnectDelay?: number;
+  /**
+   * Upper bound of the reconnection delay in ms. Defaults to 10000
+   */
+  maxReconnectDelay?: number;
+  /**
+   * Times a command is replayed after the device came back. Defaults to 3
+   */
+  maxReplays?: number;
+  /**
+   * Chunk size of the created CommHandlers.
+   */
+  chunkSize?: number;
+  /**
+   * Called on every newly created DposLedger (ex: to set limits, guard or progress listeners).
+   */
+  setup?: (ledger: DposLedger, commHandler: CommHandler) => void;
+}
+
+interface IWaiter {
+  resolve: (ledger: DposLedger) => void;
+  reject: (err: Error) => void;
+}
+
+/**
+ * Keeps a device usable over long periods of time.
+ * It pings the device periodically, detects when it gets unplugged, locked or when the app is closed,
+ * recreates transport and DposLedger through the given factory and replays the commands that failed
+ * because of it once the device is back.
+ * @example
+ * ```javascript
+ *
+ * const session = new LedgerSession(() => TransportNodeHid.create());
+ * session.onStateChange((state) => console.log(`Ledger is ${state}`));
+ * await session.open();
+ * const signature = await session.run((ledger) => ledger.signTX(account, tx));
+ * ```
+ */
+export class LedgerSession {
+  private currentState: SessionState          = SessionState.DISCONNECTED;
+  private current: DposLedger                 = null;
+  private comm: CommHandler                   = null;
+  private transport: ITransport               = null;
+  private listeners: SessionStateListener[]   = [];
+  private waiters: IWaiter[]                  = [];
+  private recovering: boolean                 = false;
+  private pingTimer: any                      = null;
+  private sleepTimer: any                     = null;
+  private wakeUp: () => void                  = null;
+  private ioErrors: WeakSet<object>           = new WeakSet();
+  private options: ISessionOptions;
+
+  /**
+   * @param {() => Promise<ITransport>} transportFactory creates a new transport each time it's called.
+   * @param {ISessionOptions} options
+   */
+  constructor(private transportFactory: () => Promise<ITransport>, options: ISessionOptions = {}) {
+    this.options = {
+      maxReconnectDelay: 10000,
+      maxReplays       : 3,
+      pingInterval     : 5000,
+      pingTimeout      : 5000,
+      reconnectDelay   : 500,
+      ...options,
+    };
+  }
+
+  get state(): SessionState {
+    return this.currentState;
+  }
+
+  /**
+   * Current DposLedger instance. It changes every time the transport is recreated. null if not connected yet.
+   */
+  get ledger(): DposLedger {
+    return this.current;
+  }
+
+  /**
+   * True while the device is still busy with a cancelled or timed out command (ex: a prompt left on screen).
+   * Commands run meanwhile wait for the user to act on the device. Health checks are paused as well.
+   */
+  get stalled(): boolean {
+    return this.comm !== null && this.comm.stalled;
+  }
+
+  /**
+   * Registers a state change listener.
+   * @param {SessionStateListener} listener
+   * @returns {() => void} function removing the listener.
+   */
+  public onStateChange(listener: SessionStateListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Connects to the device. Resolves once the device answers, retrying as long as needed.
+   * @param {IAbortSignal} signal stops waiting for the device.
+   * @returns {Promise<DposLedger>}
+   */
+  public open(signal?: IAbortSignal): Promise<DposLedger> {
+    return this.connected(signal);
+  }
+
+  /**
+   * Runs a command against the device. If it fails because the device got disconnected, locked or the app
+   * was closed, the command is replayed once the device is back.
+   * @param {(ledger: DposLedger) => Promise<T>} command
+   * @param {IAbortSignal} signal stops waiting for the device.
+   * @returns {Promise<T>} command result.
+   */
+  public async run<T>(command: (ledger: DposLedger) => Promise<T>, signal?: IAbortSignal): Promise<T> {
+    for (let replay = 0; ; replay++) {
+      const ledger = await this.connected(signal);
+      try {
+        return await command(ledger);
+      } catch (err) {
+        const state = this.stateOf(err);
+        if (state === null || replay >= this.options.maxReplays || this.isClosed()) {
+          throw err;
+        }
+        this.lost(ledger, state, err);
+      }
+    }
+  }
+
+  /**
+   * Closes the session and the transport. Pending commands waiting for the device reject with SessionClosedError.
+   * @returns {Promise<void>}
+   */
+  public async close(): Promise<void> {
+    if (this.isClosed()) {
+      return;
+    }
+    this.setState(SessionState.CLOSED);
+    clearTimeout(this.pingTimer);
+    clearTimeout(this.sleepTimer);
+    if (this.wakeUp) {
+      this.wakeUp();
+    }
+    const waiters = this.waiters;
+    this.waiters  = [];
+    waiters.forEach((w) => w.reject(new SessionClosedError()));
+    this.current = null;
+    this.comm    = null;
+    await this.disposeTransport();
+  }
+
+  /**
+   * Resolves with the current ledger once connected, starting the recovery if needed.
+   */
+  private connected(signal?: IAbortSignal): Promise<DposLedger> {
+    if (this.isClosed()) {
+      return Promise.reject(new SessionClosedError());
+    }
+    if (signal && signal.aborted) {
+      return Promise.reject(new OperationCancelledError());
+    }
+    if (this.currentState === SessionState.CONNECTED) {
+      return Promise.resolve(this.current);
+    }
+    return new Promise<DposLedger>((resolve, reject) => {
+      const onAbort = () => {
+        this.waiters = this.waiters.filter((w) => w !== waiter);
+        reject(new OperationCancelledError());
+      };
+      const done    = () => signal && signal.removeEventListener('abort', onAbort);
+      const waiter  = {
+        reject : (err: Error) => {
+          done();
+          reject(err);
+        },
+        resolve: (ledger: DposLedger) => {
+          done();
+          resolve(ledger);
+        },
+      };
+      if (signal) {
+        signal.addEventListener('abort', onAbort);
+      }
+      this.waiters.push(waiter);
+      this.recover();
+    });
+  }
+
+  /**
+   * Marks the given ledger as unusable and starts the recovery.
+   * Failures of ledgers already replaced are ignored.
+   */
+  private lost(ledger: DposLedger, state: SessionState, err: Error) {
+    if (ledger !== this.current || this.currentState !== SessionState.CONNECTED) {
+      return;
+    }
+    clearTimeout(this.pingTimer);
+    this.setState(state, err);
+    this.recover();
+  }
+
+  /**
+   * Recreates the transport until the device answers to ping.
+   */
+  private async recover() {
+    if (this.recovering || this.isClosed()) {
+      return;
+    }
+    this.recovering = true;
+    let delay       = this.options.reconnectDelay;
+    if (this.currentState === SessionState.DISCONNECTED) {
+      this.setState(SessionState.CONNECTING);
+    }
+    while (!this.isClosed()) {
+      try {
+        await this.connect();
+        if (this.isClosed()) {
+          break;
+        }
+        this.setState(SessionState.CONNECTED);
+        const waiters = this.waiters;
+        this.waiters  = [];
+        waiters.forEach((w) => w.resolve(this.current));
+        this.scheduleHealthCheck();
+        break;
+      } catch (err) {
+        if (this.isClosed()) {
+          break;
+        }
+        this.setState(this.stateOf(err) || SessionState.DISCONNECTED, err);
+        await this.sleep(delay);
+        delay = Math.min(delay * 2, this.options.maxReconnectDelay);
+      }
+    }
+    this.recovering = false;
+  }
+
+  private async connect(): Promise<void> {
+    this.current = null;
+    this.comm    = null;
+    await this.disposeTransport();
+    this.transport = await this.transportFactory();
+    const tracked  = this.trackErrors(this.transport);
+    const comm     = typeof(this.options.chunkSize) === 'undefined' ?
+      new CommHandler(tracked) :
+      new CommHandler(tracked, this.options.chunkSize);
+    const ledger   = new DposLedger(comm);
+    if (this.options.setup) {
+      this.options.setup(ledger, comm);
+    }
+    await this.ping(ledger);
+    this.current = ledger;
+    this.comm    = comm;
+  }
+
+  private scheduleHealthCheck() {
+    if (!(this.options.pingInterval > 0)) {
+      return;
+    }
+    this.pingTimer = setTimeout(async () => {
+      const ledger = this.current;
+      if (this.currentState !== SessionState.CONNECTED || ledger === null) {
+        return;
+      }
+      if (this.stalled) {
+        // The ping would hang until the user acts on the device.
+        this.scheduleHealthCheck();
+        return;
+      }
+      try {
+        await this.ping(ledger);
+        if (ledger === this.current && this.currentState === SessionState.CONNECTED) {
+          this.scheduleHealthCheck();
+        }
+      } catch (err) {
+        if (err instanceof CommandDroppedError) {
+          this.scheduleHealthCheck();
+          return;
+        }
+        this.lost(ledger, this.stateOf(err) || SessionState.DISCONNECTED, err);
+      }
+    }, this.options.pingInterval);
+  }
+
+  /**
+   * Pings the device. A device not answering within pingTimeout rejects with OperationTimeoutError.
+   */
+  private ping(ledger: DposLedger): Promise<void> {
+    const timeout = this.options.pingTimeout;
+    return ledger.ping({ confirmationTimeout: timeout, transferTimeout: timeout });
+  }
+
+  /**
+   * Wraps the transport remembering the errors it throws, so that they can be told apart from local failures.
+   */
+  private trackErrors(transport: ITransport): ITransport {
+    return {
+      send          : (cla, ins, p1, p2, data, statusList) => transport.send(cla, ins, p1, p2, data, statusList)
+        .catch((err) => {
+          if (err !== null && typeof(err) === 'object') {
+            this.ioErrors.add(err);
+          }
+          throw err;
+        }),
+      setScrambleKey: (key) => transport.setScrambleKey(key),
+    };
+  }
+
+  private async disposeTransport() {
+    const transport = this.transport;
+    this.transport  = null;
+    if (transport && typeof(transport.close) === 'function') {
+      try {
+        await transport.close();
+      } catch (e) {
+        // Transport is most likely already dead.
+      }
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise<void>((resolve) => {
+      this.wakeUp     = resolve;
+      this.sleepTimer = setTimeout(resolve, ms);
+    });
+  }
+
+  private isClosed(): boolean {
+    return this.currentState === SessionState.CLOSED;
+  }
+
+  private setState(state: SessionState, error?: Error) {
+    const previous = this.currentState;
+    if (previous === state) {
+      return;
+    }
+    this.currentState = state;
+    this.listeners.forEach((l) => l(state, previous, error));
+  }
+
+  /**
+   * Maps an error to the state it reveals, null if it's not connection related (ex: user rejection or
+   * invalid arguments). Only failures of the transport itself reveal a disconnection.
+   */
+  private stateOf(err: any): SessionState {
+    if (err instanceof DeviceLockedError) {
+      return SessionState.LOCKED;
+    }
+    if (err instanceof AppNotOpenError) {
+      return SessionState.APP_CLOSED;
+    }
+    if (err !== null && typeof(err) === 'object' && this.ioErrors.has(err)) {
+      return SessionState.DISCONNECTED;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,285 @@
+import { sha256 } from './crypto';
+import { InvalidTransactionError } from './errors';
+import { bufferToDecimal, decimalToBuffer, isHexOfSize } from './utils';
+
+/**
+ * Transaction types understood by the ledger app.
+ */
+export enum TransactionType {
+  SEND             = 0,
+  SECOND_SIGNATURE = 1,
+  DELEGATE         = 2,
+  VOTE             = 3,
+  MULTISIGNATURE   = 4,
+}
+
+/**
+ * Fields shared by all transaction types.
+ */
+export interface IBaseTransaction<T extends TransactionType, AssetType> {
+  type: T;
+  /**
+   * Seconds since the coin epoch.
+   */
+  timestamp: number;
+  senderPublicKey: string;
+  /**
+   * Set when the transaction is requested by a multisignature account member.
+   */
+  requesterPublicKey?: string;
+  /**
+   * Address including its suffix (ex: 15610359283786884938L)
+   */
+  recipientId?: string;
+  /**
+   * Amount in satoshi.
+   */
+  amount: number;
+  /**
+   * Fee in satoshi. Not part of the signed bytes.
+   */
+  fee: number;
+  asset: AssetType;
+  signature?: string;
+  signSignature?: string;
+}
+
+export type ISendTransaction = IBaseTransaction<TransactionType.SEND, { data?: string }>;
+export type ISecondSignatureTransaction = IBaseTransaction<TransactionType.SECOND_SIGNATURE,
+  { signature: { publicKey: string } }>;
+export type IDelegateTransaction = IBaseTransaction<TransactionType.DELEGATE,
+  { delegate: { username: string, publicKey?: string } }>;
+/**
+ * votes are in the following format: ['-publicKey1', '+publicKey2']
+ */
+export type IVoteTransaction = IBaseTransaction<TransactionType.VOTE, { votes: string[] }>;
+/**
+ * keysgroup entries are in the following format: ['+publicKey1', '+publicKey2']
+ */
+export type IMultisignatureTransaction = IBaseTransaction<TransactionType.MULTISIGNATURE,
+  { multisignature: { min: number, lifetime: number, keysgroup: string[] } }>;
+
+export type Transaction = ISendTransaction | ISecondSignatureTransaction | IDelegateTransaction |
+  IVoteTransaction | IMultisignatureTransaction;
+
+/**
+ * Transaction signed through DposLedger, along with its id.
+ */
+export type SignedTransaction = Transaction & { id: string, signature: string };
+
+/**
+ * Transaction in the JSON format accepted by the nodes transactions endpoint.
+ */
+export interface INodeTransaction {
+  id: string;
+  type: TransactionType;
+  timestamp: number;
+  senderPublicKey: string;
+  requesterPublicKey?: string;
+  recipientId: string;
+  amount: number | string;
+  fee: number | string;
+  asset: any;
+  signature: string;
+  signSignature?: string;
+  signatures?: string[];
+}
+
+export interface INodeTransactionOptions {
+  /**
+   * Encode amount and fee as strings, as Lisk core >= 1.0 expects. Use false for nodes expecting numbers (ex: RISE).
+   * Defaults to true
+   */
+  stringAmounts?: boolean;
+}
+
+/**
+ * Serialization options
+ */
+export interface ISerializeOptions {
+  /**
+   * Do not include the signature (and the signSignature) in the bytes.
+   */
+  skipSignature?: boolean;
+  /**
+   * Do not include the signSignature in the bytes.
+   */
+  skipSignSignature?: boolean;
+}
+
+/**
+ * Serializes a transaction in the same format the ledger app (and the dPoS nodes) expect.
+ * Bytes produced here can be passed to DposLedger.signTX
+ * @param {Transaction} tx the transaction
+ * @param {ISerializeOptions} opts
+ * @returns {Buffer} the transaction bytes.
+ * @example
+ * ```javascript
+ *
+ * const bytes = serializeTransaction({
+ *   type: TransactionType.SEND,
+ *   amount: 851000000,
+ *   fee: 10000000,
+ *   recipientId: '15610359283786884938L',
+ *   senderPublicKey: publicKey,
+ *   timestamp: 10,
+ *   asset: {},
+ * });
+ * ```
+ */
+export function serializeTransaction(tx: Transaction, opts: ISerializeOptions = {}): Buffer {
+  if (tx === null || typeof(tx) !== 'object') {
+    throw new InvalidTransactionError('Transaction must be an object');
+  }
+  if (!Number.isInteger(tx.timestamp) || tx.timestamp < 0 || tx.timestamp > 0x7fffffff) {
+    throw new InvalidTransactionError('Invalid timestamp');
+  }
+  if (!Number.isSafeInteger(tx.amount) || tx.amount < 0) {
+    throw new InvalidTransactionError('Invalid amount');
+  }
+
+  const header = Buffer.alloc(5);
+  header.writeUInt8(tx.type, 0);
+  header.writeInt32LE(tx.timestamp, 1);
+
+  const amount = Buffer.alloc(8);
+  amount.writeUInt32LE(tx.amount % 0x100000000, 0);
+  amount.writeUInt32LE(Math.floor(tx.amount / 0x100000000), 4);
+
+  const parts = [
+    header,
+    hexKey(tx.senderPublicKey, 32, 'senderPublicKey'),
+    tx.requesterPublicKey ? hexKey(tx.requesterPublicKey, 32, 'requesterPublicKey') : Buffer.alloc(0),
+    recipientBytes(tx.recipientId),
+    amount,
+    assetBytes(tx),
+  ];
+
+  if (!opts.skipSignature && tx.signature) {
+    parts.push(hexKey(tx.signature, 64, 'signature'));
+    if (!opts.skipSignSignature && tx.signSignature) {
+      parts.push(hexKey(tx.signSignature, 64, 'signSignature'));
+    }
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Computes the transaction id: the first 8 bytes of sha256(bytes), reversed and read as a decimal number.
+ * Bytes include signature and signSignature, so the id is only meaningful once the transaction is fully signed.
+ * @param {Transaction} tx signed transaction
+ * @returns {string} the id (ex: 13118573298155330331)
+ */
+export function transactionId(tx: Transaction): string {
+  const head = Buffer.from(sha256(serializeTransaction(tx)).slice(0, 8));
+  head.reverse();
+  return bufferToDecimal(head);
+}
+
+/**
+ * Converts a signed transaction to the JSON format accepted by Lisk/RISE nodes.
+ * Missing recipientId is sent as null, optional fields are omitted when not set.
+ * @param {SignedTransaction} tx signed transaction (ex: returned by DposLedger.signTransaction)
+ * @param {INodeTransactionOptions} opts
+ * @returns {INodeTransaction}
+ * @example
+ * ```javascript
+ *
+ * const signed = await instance.signTransaction(account, tx);
+ * await axios.post(`${node}/api/transactions`, toNodeTransaction(signed));
+ * ```
+ */
+export function toNodeTransaction(tx: SignedTransaction & { signatures?: string[] },
+                                  opts: INodeTransactionOptions = {}): INodeTransaction {
+  const stringAmounts         = opts.stringAmounts !== false;
+  const json: INodeTransaction = {
+    amount         : stringAmounts ? String(tx.amount) : tx.amount,
+    asset          : tx.asset,
+    fee            : stringAmounts ? String(tx.fee) : tx.fee,
+    id             : tx.id,
+    recipientId    : tx.recipientId || null,
+    senderPublicKey: tx.senderPublicKey,
+    signature      : tx.signature,
+    timestamp      : tx.timestamp,
+    type           : tx.type,
+  };
+  if (tx.requesterPublicKey) {
+    json.requesterPublicKey = tx.requesterPublicKey;
+  }
+  if (tx.signSignature) {
+    json.signSignature = tx.signSignature;
+  }
+  if (Array.isArray(tx.signatures)) {
+    json.signatures = tx.signatures;
+  }
+  return json;
+}
+
+/**
+ * Strips the suffix from the address and returns the 8 bytes numeric representation.
+ */
+function recipientBytes(recipientId: string): Buffer {
+  if (!recipientId) {
+    return Buffer.alloc(8);
+  }
+  const match = /^([0-9]+)[A-Z]+$/.exec(recipientId);
+  if (!match) {
+    throw new InvalidTransactionError(`Invalid recipientId ${recipientId}`);
+  }
+  try {
+    return decimalToBuffer(match[1], 8);
+  } catch (e) {
+    throw new InvalidTransactionError(`Invalid recipientId ${recipientId}`);
+  }
+}
+
+function assetBytes(tx: Transaction): Buffer {
+  if (!tx.asset) {
+    throw new InvalidTransactionError('Missing asset');
+  }
+  switch (tx.type) {
+    case TransactionType.SEND:
+      return tx.asset.data ? Buffer.from(tx.asset.data, 'utf8') : Buffer.alloc(0);
+    case TransactionType.SECOND_SIGNATURE:
+      if (!tx.asset.signature) {
+        throw new InvalidTransactionError('Missing signature asset');
+      }
+      return hexKey(tx.asset.signature.publicKey, 32, 'asset.signature.publicKey');
+    case TransactionType.DELEGATE:
+      if (!tx.asset.delegate || !tx.asset.delegate.username) {
+        throw new InvalidTransactionError('Missing delegate username');
+      }
+      return Buffer.from(tx.asset.delegate.username, 'utf8');
+    case TransactionType.VOTE:
+      if (!Array.isArray(tx.asset.votes)) {
+        throw new InvalidTransactionError('Missing votes');
+      }
+      return Buffer.from(tx.asset.votes.join(''), 'utf8');
+    case TransactionType.MULTISIGNATURE:
+      const ms = tx.asset.multisignature;
+      if (!ms || !Array.isArray(ms.keysgroup)) {
+        throw new InvalidTransactionError('Missing multisignature asset');
+      }
+      if (!isByte(ms.min) || !isByte(ms.lifetime)) {
+        throw new InvalidTransactionError('Invalid multisignature min or lifetime');
+      }
+      return Buffer.concat([
+        Buffer.from([ms.min, ms.lifetime]),
+        Buffer.from(ms.keysgroup.join(''), 'utf8'),
+      ]);
+    default:
+      throw new InvalidTransactionError(`Unknown transaction type ${(tx as any).type}`);
+  }
+}
+
+function hexKey(hex: string, size: number, field: string): Buffer {
+  if (!isHexOfSize(hex, size)) {
+    throw new InvalidTransactionError(`${field} must be a ${size} bytes hex string`);
+  }
+  return Buffer.from(hex, 'hex');
+}
+
+function isByte(n: number): boolean {
+  return Number.isInteger(n) && n >= 0 && n <= 255;
+}
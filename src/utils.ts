@@ -0,0 +1,56 @@
+/**
+ * Converts a big endian unsigned buffer into its decimal string representation.
+ * @param {Buffer} buf
+ * @returns {string}
+ */
+export function bufferToDecimal(buf: Buffer): string {
+  const digits = [0];
+  for (const byte of Array.from(buf)) {
+    let carry = byte;
+    for (let i = 0; i < digits.length; i++) {
+      carry += digits[i] * 256;
+      digits[i] = carry % 10;
+      carry     = Math.floor(carry / 10);
+    }
+    while (carry > 0) {
+      digits.push(carry % 10);
+      carry = Math.floor(carry / 10);
+    }
+  }
+  return digits.reverse().join('');
+}
+
+/**
+ * Converts a decimal string into a big endian unsigned buffer of the given size.
+ * @param {string} decimal
+ * @param {number} size of the resulting buffer in bytes
+ * @returns {Buffer}
+ */
+export function decimalToBuffer(decimal: string, size: number): Buffer {
+  if (!/^[0-9]+$/.test(decimal)) {
+    throw new Error(`${decimal} is not a valid unsigned integer`);
+  }
+  const out = Buffer.alloc(size);
+  for (const char of decimal) {
+    let carry = parseInt(char, 10);
+    for (let i = size - 1; i >= 0; i--) {
+      carry += out[i] * 10;
+      out[i] = carry % 256;
+      carry  = Math.floor(carry / 256);
+    }
+    if (carry > 0) {
+      throw new Error(`${decimal} does not fit in ${size} bytes`);
+    }
+  }
+  return out;
+}
+
+/**
+ * Checks that the given string is an hex encoded buffer of the given size
+ * @param {string} hex
+ * @param {number} size expected size in bytes.
+ * @returns {boolean}
+ */
+export function isHexOfSize(hex: string, size: number): boolean {
+  return typeof(hex) === 'string' && hex.length === size * 2 && /^[0-9a-f]*$/i.test(hex);
+}
@@ -0,0 +1,77 @@
+import * as nacl from 'tweetnacl';
+import { messageBytes, sha256, SIGNED_MESSAGE_PREFIX } from './crypto';
+import { ISerializeOptions, serializeTransaction, Transaction } from './transaction';
+import { isHexOfSize } from './utils';
+
+/**
+ * Reconstructs the exact 32 bytes payload the ledger app signs for signMSG.
+ * Strings are utf8 encoded just like DposLedger.signMSG does. The payload does not depend on how the
+ * device displayed the message: binary messages shown as <binary data> are signed as they are.
+ * @param {string | Buffer} message
+ * @param {string} prefix defaults to the dPoS signed message prefix. Use coinRegistry.get(coin).messagePrefix
+ * for coin specific prefixes.
+ * @returns {Buffer} sha256(sha256(varint(prefix.length) + prefix + varint(msg.length) + msg))
+ */
+export function messageSignablePayload(message: string | Buffer, prefix: string = SIGNED_MESSAGE_PREFIX): Buffer {
+  const msgBuf = typeof(message) === 'string' ? Buffer.from(message, 'utf8') : message;
+  return sha256(sha256(messageBytes(msgBuf, prefix)));
+}
+
+/**
+ * Reconstructs the exact payload the ledger app signs for signTX.
+ * @param {Buffer | Transaction} tx transaction bytes (as passed to signTX) or transaction object
+ * @param {ISerializeOptions} opts serialization options used when tx is an object.
+ * @returns {Buffer} sha256 of the transaction bytes.
+ */
+export function transactionSignablePayload(tx: Buffer | Transaction, opts: ISerializeOptions = {}): Buffer {
+  return sha256(Buffer.isBuffer(tx) ? tx : serializeTransaction(tx, opts));
+}
+
+/**
+ * Verifies a signature produced by DposLedger.signMSG
+ * @param {string | Buffer} message the signed message
+ * @param {Buffer | string} signature signature (buffer or hex)
+ * @param {Buffer | string} publicKey signer publicKey (buffer or hex)
+ * @param {string} prefix defaults to the dPoS signed message prefix.
+ * @returns {boolean} true if signature is valid
+ * @example
+ * ```javascript
+ *
+ * const signature = await instance.signMSG(account, 'vekexasia rules');
+ * verifyMessageSignature('vekexasia rules', signature, publicKey); // true
+ * ```
+ */
+export function verifyMessageSignature(message: string | Buffer, signature: Buffer | string,
+                                       publicKey: Buffer | string, prefix: string = SIGNED_MESSAGE_PREFIX): boolean {
+  return verifyDetached(messageSignablePayload(message, prefix), signature, publicKey);
+}
+
+/**
+ * Verifies a signature produced by DposLedger.signTX
+ * @param {Buffer | Transaction} tx transaction bytes (as passed to signTX) or transaction object
+ * @param {Buffer | string} signature signature (buffer or hex)
+ * @param {Buffer | string} publicKey signer publicKey (buffer or hex)
+ * @param {ISerializeOptions} opts serialization options used when tx is an object.
+ * Use skipSignature to verify the primary signature of an already signed transaction.
+ * @returns {boolean} true if signature is valid
+ */
+export function verifyTransactionSignature(tx: Buffer | Transaction, signature: Buffer | string,
+                                           publicKey: Buffer | string, opts: ISerializeOptions = {}): boolean {
+  return verifyDetached(transactionSignablePayload(tx, opts), signature, publicKey);
+}
+
+function verifyDetached(payload: Buffer, signature: Buffer | string, publicKey: Buffer | string): boolean {
+  const sigBuf = toKeyBuffer(signature, 64);
+  const pubBuf = toKeyBuffer(publicKey, 32);
+  if (sigBuf === null || pubBuf === null) {
+    return false;
+  }
+  return nacl.sign.detached.verify(payload, sigBuf, pubBuf);
+}
+
+function toKeyBuffer(what: Buffer | string, size: number): Buffer {
+  if (Buffer.isBuffer(what)) {
+    return what.length === size ? what : null;
+  }
+  return isHexOfSize(what, size) ? Buffer.from(what, 'hex') : null;
+}
@@ -0,0 +1,155 @@
+import { LedgerAccount } from './account';
+import { deriveAddress } from './address';
+import { coinRegistry } from './coinRegistry';
+import { InvalidTransactionError } from './errors';
+import { DposLedger, IBatchItemResult, IBatchOptions } from './library';
+import { assertWithinLimit } from './limits';
+import { IVoteTransaction, TransactionType } from './transaction';
+import { isHexOfSize } from './utils';
+
+/**
+ * Delegates to vote and to unvote to go from a vote set to another.
+ */
+export interface IVoteDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface IVotePlanOptions {
+  /**
+   * Max number of vote entries (additions plus removals) per transaction. Defaults to 33
+   */
+  maxVotesPerTransaction?: number;
+  /**
+   * Max number of delegates an account can vote. Defaults to 101
+   */
+  maxVotes?: number;
+}
+
+export interface IVoteSigningOptions extends IVotePlanOptions, IBatchOptions {
+  /**
+   * Fee of each vote transaction in satoshi.
+   */
+  fee: number;
+  /**
+   * Timestamp of the transactions. Defaults to coinRegistry.timestamp of the account coin.
+   */
+  timestamp?: number;
+}
+
+/**
+ * Computes the delegates to add and to remove. Duplicates are ignored, order is preserved.
+ * @param {string[]} current publicKeys of the currently voted delegates.
+ * @param {string[]} desired publicKeys of the delegates to be voted.
+ * @returns {IVoteDiff}
+ */
+export function diffVotes(current: string[], desired: string[]): IVoteDiff {
+  const currentSet = uniqueKeys(current, 'current');
+  const desiredSet = uniqueKeys(desired, 'desired');
+  return {
+    added  : desiredSet.filter((key) => currentSet.indexOf(key) === -1),
+    removed: currentSet.filter((key) => desiredSet.indexOf(key) === -1),
+  };
+}
+
+/**
+ * Splits the vote changes into the minimum number of vote assets respecting maxVotesPerTransaction.
+ * Removals come first so the account never exceeds maxVotes while the transactions get applied in order.
+ * Throws LimitExceededError if desired exceeds maxVotes.
+ * @param {string[]} current publicKeys of the currently voted delegates.
+ * @param {string[]} desired publicKeys of the delegates to be voted.
+ * @param {IVotePlanOptions} opts
+ * @returns {string[][]} votes of each transaction (ex: [['-publicKey1', '+publicKey2']]). Empty if nothing changes.
+ */
+export function planVotes(current: string[], desired: string[], opts: IVotePlanOptions = {}): string[][] {
+  const perTx    = typeof(opts.maxVotesPerTransaction) === 'undefined' ? 33 : opts.maxVotesPerTransaction;
+  const maxVotes = typeof(opts.maxVotes) === 'undefined' ? 101 : opts.maxVotes;
+  if (!Number.isInteger(perTx) || perTx < 1) {
+    throw new Error('maxVotesPerTransaction must be a positive integer');
+  }
+  const { added, removed } = diffVotes(current, desired);
+  assertWithinLimit('Votes', maxVotes, uniqueKeys(desired, 'desired').length);
+
+  const entries = [
+    ...removed.map((key) => `-${key}`),
+    ...added.map((key) => `+${key}`),
+  ];
+  const plan: string[][] = [];
+  for (let i = 0; i < entries.length; i += perTx) {
+    plan.push(entries.slice(i, i + perTx));
+  }
+  return plan;
+}
+
+/**
+ * Builds and signs the vote transactions needed to go from current to desired votes. Transactions are signed in
+ * order through DposLedger.signBatch, which by default stops at the first rejection or failure as the following
+ * transactions may rely on the previous ones. The account coin must be registered in the coinRegistry as
+ * recipientId is derived locally from the publicKey.
+ * @param {DposLedger} ledger
+ * @param {LedgerAccount} account voting account
+ * @param {string[]} current publicKeys of the currently voted delegates.
+ * @param {string[]} desired publicKeys of the delegates to be voted.
+ * @param {IVoteSigningOptions} opts fee, timestamp, limits and signBatch options.
+ * @returns {Promise<IBatchItemResult[]>} one result per vote transaction, in the order they must be broadcast.
+ * @example
+ * ```javascript
+ *
+ * const results = await signVotes(instance, account, votedNow, wanted, { fee: 100000000 });
+ * for (const { transaction } of results.filter((r) => r.status === 'signed')) {
+ *   await broadcast(toNodeTransaction(transaction));
+ * }
+ * ```
+ */
+export async function signVotes(ledger: DposLedger,
+                                account: LedgerAccount,
+                                current: string[],
+                                desired: string[],
+                                opts: IVoteSigningOptions): Promise<IBatchItemResult[]> {
+  const { fee, maxVotes, maxVotesPerTransaction, timestamp, ...batchOpts } = opts;
+
+  const plan = planVotes(current, desired, { maxVotes, maxVotesPerTransaction });
+  if (plan.length === 0) {
+    return [];
+  }
+  if (!Number.isSafeInteger(fee) || fee < 0) {
+    throw new InvalidTransactionError('Invalid fee');
+  }
+  const coin = account.coin();
+  if (!coin) {
+    throw new InvalidTransactionError('Account coin is not registered: cannot derive the voting address');
+  }
+
+  const { publicKey } = await ledger.getPubKey(account, false, false, batchOpts);
+  const txTimestamp   = typeof(timestamp) === 'undefined' ? coinRegistry.timestamp(coin.slip44) : timestamp;
+  const transactions  = plan.map((votes): IVoteTransaction => ({
+    amount         : 0,
+    asset          : { votes },
+    fee,
+    recipientId    : deriveAddress(publicKey, coin.slip44),
+    senderPublicKey: publicKey,
+    timestamp      : txTimestamp,
+    type           : TransactionType.VOTE,
+  }));
+  return ledger.signBatch(transactions.map((tx) => ({ account, tx })), {
+    stopOnError    : true,
+    stopOnRejection: true,
+    ...batchOpts,
+  });
+}
+
+function uniqueKeys(keys: string[], name: string): string[] {
+  if (!Array.isArray(keys)) {
+    throw new InvalidTransactionError(`${name} votes must be an array of publicKeys`);
+  }
+  const unique: string[] = [];
+  for (const key of keys) {
+    if (!isHexOfSize(key, 32)) {
+      throw new InvalidTransactionError(`Invalid delegate publicKey ${key}`);
+    }
+    if (unique.indexOf(key.toLowerCase()) === -1) {
+      unique.push(key.toLowerCase());
+    }
+  }
+  return unique;
+}
@@ -12,10 +12,8 @@ import {
   SendTx,
   VoteTx
 } from 'dpos-offline';
-import { DposLedger, LedgerAccount, SupportedCoin } from '../../src/';
+import { CommHandler, DposLedger, LedgerAccount, LedgerEmulator, LimitExceededError, SupportedCoin } from '../../src/';
 import * as empty from 'is-empty';
-import TransportU2F from '@ledgerhq/hw-transport-u2f';
-import TransportNodeHid from '@ledgerhq/hw-transport-node-hid';
 import { isBrowser, isNode } from 'browser-or-node';
 import { ITransport } from '../../src/ledger';
 import { encode as encodeVarInt } from 'varuint-bitcoin';
@@ -44,20 +42,35 @@ function verifySignedMessage(prefix: string, message: string | Buffer, signature
   return GenericWallet.verifyMessage(signablePayload, Buffer.concat([signature, signablePayload]), pubKey);
 }
 
+/**
+ * Set LEDGER_EMULATOR=1 to run the suite against the software emulator instead of a real device.
+ */
+async function createTransport(): Promise<ITransport> {
+  if (isNode && process.env.LEDGER_EMULATOR) {
+    // The emulated app reports addresses with the generic suffix just like the "all" build.
+    return new LedgerEmulator(Buffer.alloc(32).fill(0xab));
+  }
+  return isBrowser ?
+    require('@ledgerhq/hw-transport-u2f').default.create() :
+    require('@ledgerhq/hw-transport-node-hid').default.create();
+}
+
 describe('Integration tests', function () {
   this.timeout(150222200);
   let dl: DposLedger;
+  let comm: CommHandler;
   let account: LedgerAccount;
   let pubKey: string;
   let address: string;
   let transport: ITransport;
   const msgPrefix = 'dPoS Signed Message:\n';
   before(async () => {
-    transport = await (isBrowser ? TransportU2F.create() : TransportNodeHid.create());
-    dl        = new DposLedger(transport);
+    transport = await createTransport();
+    comm      = new CommHandler(transport);
+    dl        = new DposLedger(comm);
   });
   // tslint:disable-next-line
-  after(() => transport['close']());
+  after(() => transport['close'] && transport['close']());
 
   beforeEach(async () => {
     account   = new LedgerAccount();
@@ -125,7 +138,10 @@ describe('Integration tests', function () {
     });
     it('should gen failure 1000-prefix-3 message', async () => {
       const msg = `${new Array(1000 - msgPrefix.length - 3).fill('a').join('')}`;
-      await expect(dl.signMSG(account, msg)).rejectedWith('6a80');
+      await expect(dl.signMSG(account, msg)).rejectedWith(LimitExceededError);
+      // Skip pre-flight validation to let the device reject it.
+      const unbounded = new DposLedger(comm, { maxMessageSize: Infinity });
+      await expect(unbounded.signMSG(account, msg)).rejectedWith('6a80');
     });
 
   });
@@ -516,7 +532,9 @@ describe('Integration tests', function () {
         new Buffer(msgPrefix, 'ascii'),
         Buffer.alloc(2501 - msgPrefix.length).fill('a'),
       ]);
-      return expect(dl.signMSG(account, buffer)).to.rejectedWith('6a84');
+      // Skip pre-flight validation to let the device reject it.
+      const unbounded = new DposLedger(comm, { maxMessageSize: Infinity, maxPayloadSize: Infinity });
+      return expect(unbounded.signMSG(account, buffer)).to.rejectedWith('6a84');
     });
     it('should fail if we exceed data size during comm', async () => {
       const startBuff = Buffer.alloc(2);
@@ -558,7 +576,7 @@ describe('Integration tests', function () {
     });
 
     it('should throw if unknown command', () => {
-      return expect(dl.exchange(0x11)).to.be.rejectedWith('6a80'); // INCORRECT_DATA
+      return expect(comm.exchange(0x11)).to.be.rejectedWith('6a80'); // INCORRECT_DATA
     });
 
   });
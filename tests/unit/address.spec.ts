@@ -0,0 +1,60 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import { dposOffline } from 'dpos-offline';
+import {
+  AddressMismatchError,
+  CommHandler,
+  deriveAddress,
+  DposLedger,
+  LedgerAccount,
+  LedgerEmulator,
+  SupportedCoin,
+  UnknownCoinError,
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('address', () => {
+  const pubKey = 'a305a6d48c50f2a74d6ec0d79e2d7a372a155ae8e736a8ac7b42de915e331acb';
+
+  describe('deriveAddress', () => {
+    it('should match dpos-offline derivation', () => {
+      expect(deriveAddress(pubKey, SupportedCoin.LISK)).to.be.eq(dposOffline.utils.deriveDPOSAddress(pubKey, 'L'));
+      expect(deriveAddress(pubKey, SupportedCoin.RISE)).to.be.eq(dposOffline.utils.deriveDPOSAddress(pubKey, 'R'));
+    });
+    it('should accept buffers and raw suffixes', () => {
+      expect(deriveAddress(new Buffer(pubKey, 'hex'), 'D')).to.be.eq(dposOffline.utils.deriveDPOSAddress(pubKey, 'D'));
+    });
+    it('should throw for invalid publicKeys or unknown coins', () => {
+      expect(() => deriveAddress('aa')).to.throw('publicKey must be 32 bytes long');
+      expect(() => deriveAddress(pubKey, 1)).to.throw(UnknownCoinError);
+    });
+  });
+
+  describe('getPubKey verifyAddress', () => {
+    const seed = Buffer.alloc(32).fill(3);
+    it('should pass if device address matches', async () => {
+      const dl = new DposLedger(new CommHandler(new LedgerEmulator(seed, { coinID: 'rise' })));
+      const { publicKey, address } = await dl.getPubKey(new LedgerAccount().coinIndex(SupportedCoin.RISE), false, true);
+      expect(address).to.be.eq(deriveAddress(publicKey, SupportedCoin.RISE));
+    });
+    it('should compare only the numeric part as the multi coin app uses D for every coin', async () => {
+      const dl = new DposLedger(new CommHandler(new LedgerEmulator(seed)));
+      const { publicKey, address } = await dl.getPubKey(new LedgerAccount(), false, true);
+      expect(address).to.be.eq(deriveAddress(publicKey, 'D'));
+    });
+    it('should throw AddressMismatchError if device address differs', async () => {
+      const exchange = () => Promise.resolve([new Buffer(pubKey, 'hex'), new Buffer('123D', 'utf8')]);
+      const dl       = new DposLedger({ exchange } as any);
+      const err      = await dl.getPubKey(new LedgerAccount(), false, true).catch((e) => e);
+      expect(err).to.be.instanceOf(AddressMismatchError);
+      expect(err.expected).to.be.eq(deriveAddress(pubKey, 'D'));
+      expect(err.received).to.be.eq('123D');
+    });
+    it('should not verify unless asked', async () => {
+      const exchange = () => Promise.resolve([new Buffer(pubKey, 'hex'), new Buffer('123D', 'utf8')]);
+      await new DposLedger({ exchange } as any).getPubKey(new LedgerAccount());
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {
+  appCapabilities,
+  CancellationController,
+  capabilitiesFor,
+  CoinMismatchError,
+  CommHandler,
+  compareVersions,
+  DEFAULT_LIMITS,
+  DposLedger,
+  IProgressEvent,
+  LedgerAccount,
+  LedgerEmulator,
+  OperationCancelledError,
+  OperationTimeoutError,
+  parseVersion,
+  satisfiesRange,
+  SupportedCoin,
+  UnsupportedAppError
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('appVersion', () => {
+  describe('parseVersion', () => {
+    it('should parse semantic versions', () => {
+      expect(parseVersion('1.2.3')).to.be.deep.eq({ major: 1, minor: 2, patch: 3 });
+      expect(parseVersion('v1.10.0-beta.1')).to.be.deep.eq({ major: 1, minor: 10, patch: 0, prerelease: 'beta.1' });
+    });
+    it('should throw on invalid versions', () => {
+      expect(() => parseVersion('1.0')).to.throw('Invalid version 1.0');
+      expect(() => parseVersion('a.b.c')).to.throw();
+    });
+  });
+
+  describe('compareVersions', () => {
+    it('should compare numerically', () => {
+      expect(compareVersions('1.10.0', '1.9.0')).to.be.gt(0);
+      expect(compareVersions('1.0.0', '1.0.1')).to.be.lt(0);
+      expect(compareVersions('1.0.0', parseVersion('1.0.0'))).to.be.eq(0);
+    });
+    it('should sort pre-releases before releases', () => {
+      expect(compareVersions('1.1.0-beta', '1.1.0')).to.be.lt(0);
+      expect(compareVersions('1.1.0', '1.1.0-beta')).to.be.gt(0);
+      expect(compareVersions('1.1.0-alpha', '1.1.0-beta')).to.be.lt(0);
+    });
+  });
+
+  it('satisfiesRange should include min and exclude max', () => {
+    expect(satisfiesRange('1.0.0', { min: '1.0.0', max: '2.0.0' })).to.be.true;
+    expect(satisfiesRange('2.0.0', { min: '1.0.0', max: '2.0.0' })).to.be.false;
+    expect(satisfiesRange('0.9.9', { min: '1.0.0' })).to.be.false;
+    expect(satisfiesRange('0.9.9', {})).to.be.true;
+  });
+
+  describe('capabilitiesFor', () => {
+    afterEach(() => {
+      appCapabilities.splice(1);
+    });
+    it('should pick the closest lower entry', () => {
+      appCapabilities.push({ minVersion: '1.2.0', commands: ['ping', 'version'], limits: { maxPayloadSize: 4000 } });
+      expect(capabilitiesFor('1.1.5').limits).to.be.deep.eq(DEFAULT_LIMITS);
+      expect(capabilitiesFor('1.1.5').commands).to.include('signTX');
+      expect(capabilitiesFor('1.3.0')).to.be.deep.eq({
+        commands: ['ping', 'version'],
+        limits  : { ...DEFAULT_LIMITS, maxPayloadSize: 4000 },
+      });
+    });
+    it('should return no commands for versions predating the table', () => {
+      expect(capabilitiesFor('0.1.0').commands).to.be.deep.eq([]);
+    });
+  });
+
+  describe('DposLedger guard', () => {
+    const seed = Buffer.alloc(32).fill(7);
+    const lisk = new LedgerAccount();
+    const rise = new LedgerAccount().coinIndex(SupportedCoin.RISE);
+
+    const ledger = (version: string, coinID: string) => {
+      const emulator = new LedgerEmulator(seed, { coinID, version });
+      return { dl: new DposLedger(new CommHandler(emulator)), spy: sinon.spy(emulator, 'send') };
+    };
+
+    it('should expose parsed app info', async () => {
+      const { dl } = ledger('1.0.1', 'lisk');
+      expect(await dl.appInfo()).to.be.deep.eq({
+        coinID    : 'lisk',
+        commands  : ['getPubKey', 'signTX', 'signMSG', 'ping', 'version'],
+        limits    : DEFAULT_LIMITS,
+        rawVersion: '1.0.1',
+        version   : { major: 1, minor: 0, patch: 1 },
+      });
+    });
+
+    it('should not check anything when guard is not set', async () => {
+      const { dl, spy } = ledger('0.0.1', 'lisk');
+      await dl.getPubKey(rise);
+      expect(spy.callCount).to.be.eq(3);
+    });
+
+    it('should refuse apps outside of version range', async () => {
+      const { dl } = ledger('2.0.0', 'lisk');
+      dl.guard     = { versions: { min: '1.0.0', max: '2.0.0' } };
+      const err    = await dl.ping().catch((e) => e);
+      expect(err).to.be.instanceOf(UnsupportedAppError);
+      expect(err.version).to.be.eq('2.0.0');
+    });
+
+    it('should refuse unsupported coinIDs', async () => {
+      const { dl } = ledger('1.0.0', 'shift');
+      dl.guard     = { coinIDs: ['Lisk', 'rise'], matchAccountCoin: false };
+      await expect(dl.ping()).to.be.rejectedWith(UnsupportedAppError, 'App coinID shift is not supported');
+    });
+
+    it('should refuse commands missing from the capability table', async () => {
+      const { dl } = ledger('0.5.0', 'all');
+      dl.guard     = {};
+      await expect(dl.signMSG(lisk, 'hey')).to.be.rejectedWith('Command signMSG is not supported by app 0.5.0');
+    });
+
+    it('should refuse accounts of another coin and cache app info', async () => {
+      const { dl, spy } = ledger('1.0.0', 'lisk');
+      dl.guard          = { versions: { min: '1.0.0' } };
+      const err         = await dl.signMSG(rise, 'hey').catch((e) => e);
+      expect(err).to.be.instanceOf(CoinMismatchError);
+      expect(err.coin).to.be.eq(SupportedCoin.RISE);
+      await dl.signMSG(lisk, 'hey');
+      // version queried once, then signMSG.
+      expect(spy.callCount).to.be.eq(6);
+      dl.invalidateAppInfo();
+      await dl.getPubKey(lisk);
+      expect(spy.callCount).to.be.eq(12);
+    });
+
+    it('should query the version once for concurrent commands', async () => {
+      const { dl, spy } = ledger('1.0.0', 'lisk');
+      dl.guard          = {};
+      await Promise.all([dl.ping(), dl.getPubKey(lisk), dl.signMSG(lisk, 'hey')]);
+      // version, then the 3 commands.
+      expect(spy.callCount).to.be.eq(12);
+    });
+
+    it('should not cache failed version queries', async () => {
+      const comm = new CommHandler(new LedgerEmulator(seed, { coinID: 'lisk', version: '1.0.0' }));
+      const dl   = new DposLedger(comm);
+      const stub = sinon.stub(comm, 'exchange').callThrough();
+      dl.guard   = {};
+      stub.onFirstCall().rejects(new Error('DisconnectedDevice'));
+      await expect(dl.ping()).to.be.rejectedWith('DisconnectedDevice');
+      await dl.ping();
+      expect(stub.getCalls().map((c) => c.args[0])).to.be.deep.eq([0x09, 0x09, 0x08]);
+    });
+
+    it('should let each caller give up on the shared version query on its own', async () => {
+      const emulator = new LedgerEmulator(seed, { coinID: 'lisk', version: '1.0.0' });
+      const dl       = new DposLedger(new CommHandler(emulator));
+      const send     = emulator.send.bind(emulator);
+      let release: () => void;
+      const gate     = new Promise((resolve) => release = resolve);
+      sinon.stub(emulator, 'send').callsFake(async (...args) => {
+        await gate;
+        return send(...args);
+      });
+      dl.guard         = {};
+      const controller = new CancellationController();
+      const aborted    = dl.getPubKey(lisk, false, false, { signal: controller.signal });
+      const timedOut   = dl.getPubKey(lisk, false, false, { transferTimeout: 10 });
+      const other      = dl.getPubKey(lisk);
+      controller.abort();
+      await expect(aborted).to.be.rejectedWith(OperationCancelledError);
+      const err = await timedOut.catch((e) => e);
+      expect(err).to.be.instanceOf(OperationTimeoutError);
+      expect(err.phase).to.be.eq('transfer');
+      release();
+      expect((await other).publicKey).to.be.a('string');
+      await expect(dl.getPubKey(lisk, false, false, { signal: controller.signal }))
+        .to.be.rejectedWith(OperationCancelledError);
+    });
+
+    it('should not notify the caller listener about the version query', async () => {
+      const { dl } = ledger('1.0.0', 'lisk');
+      dl.guard     = {};
+      const events: IProgressEvent[] = [];
+      const listener                 = { onProgress: (e: IProgressEvent) => events.push(e), onStart: sinon.spy() };
+      await dl.signMSG(lisk, 'hey', { progressListener: listener });
+      expect(listener.onStart.calledOnce).to.be.true;
+      const percentages = events.map((e) => e.percentage);
+      expect(percentages).to.be.deep.eq(percentages.slice().sort((x, y) => x - y));
+      expect(events.every((e) => e.totalBytes > 1)).to.be.true;
+    });
+
+    it('should accept any account on multi coin apps', async () => {
+      const { dl } = ledger('1.0.0', 'all');
+      dl.guard     = {};
+      await dl.getPubKey(rise);
+    });
+  });
+});
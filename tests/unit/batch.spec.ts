@@ -0,0 +1,128 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import {
+  CancellationController,
+  CommHandler,
+  DposLedger,
+  IBatchItem,
+  IBatchProgress,
+  LedgerAccount,
+  LedgerEmulator,
+  serializeTransaction,
+  Transaction,
+  TransactionType,
+  UserRejectedError,
+  verifyTransactionSignature
+} from '../../src';
+
+describe('DposLedger.signBatch', () => {
+  const account = new LedgerAccount();
+  let rejected: number[];
+  let calls: number;
+  let dl: DposLedger;
+  let items: IBatchItem[];
+  let publicKey: string;
+
+  beforeEach(async () => {
+    rejected       = [];
+    calls          = 0;
+    const emulator = new LedgerEmulator(Buffer.alloc(32).fill(4), {
+      confirm: ({ command }) => command !== 'signTX' || rejected.indexOf(calls++) === -1,
+    });
+    dl             = new DposLedger(new CommHandler(emulator, 16));
+    publicKey      = (await dl.getPubKey(account)).publicKey;
+    items          = [1, 2, 3].map((amount) => ({
+      account,
+      tx: {
+        amount,
+        asset          : {},
+        fee            : 10000000,
+        recipientId    : '15610359283786884938L',
+        senderPublicKey: publicKey,
+        timestamp      : 10,
+        type           : TransactionType.SEND,
+      } as Transaction,
+    }));
+  });
+
+  it('should sign every item in sequence', async () => {
+    items.push({ account, tx: serializeTransaction(items[0].tx as Transaction) });
+    const results = await dl.signBatch(items);
+    expect(results.map((r) => r.status)).to.be.deep.eq(['signed', 'signed', 'signed', 'signed']);
+    expect(results.map((r) => r.index)).to.be.deep.eq([0, 1, 2, 3]);
+    expect(results[1].transaction.amount).to.be.eq(2);
+    expect(verifyTransactionSignature(items[1].tx, results[1].signature, publicKey)).to.be.true;
+    expect(results[3].transaction).to.be.undefined;
+    expect(results[3].signature).to.be.deep.eq(results[0].signature);
+  });
+
+  it('should report overall and per item progress', async () => {
+    const progress: IBatchProgress[] = [];
+    const itemListener               = sinon.spy();
+    await dl.signBatch(items, {
+      onProgress      : (p) => progress.push(p),
+      progressListener: { onProgress: itemListener },
+    });
+    const done = progress.filter((p) => p.result);
+    expect(done.map((p) => p.completed)).to.be.deep.eq([1, 2, 3]);
+    expect(done[2].percentage).to.be.eq(100);
+    expect(progress.filter((p) => p.item).length).to.be.eq(itemListener.callCount);
+    const percentages = progress.map((p) => p.percentage);
+    expect(percentages).to.be.deep.eq(percentages.slice().sort((a, b) => a - b));
+    expect(progress[0].item.phase).to.be.eq('transferring');
+  });
+
+  it('should keep every method and this of class based listeners', async () => {
+    class Listener {
+      public started   = 0;
+      public chunks    = 0;
+      public ended     = 0;
+      public progress  = 0;
+      public onStart() {
+        this.started++;
+      }
+      public onChunkProcessed() {
+        this.chunks++;
+      }
+      public onEnd() {
+        this.ended++;
+      }
+      public onProgress() {
+        this.progress++;
+      }
+    }
+    const listener = new Listener();
+    await dl.signBatch(items, { progressListener: listener });
+    expect(listener.started).to.be.eq(3);
+    expect(listener.ended).to.be.eq(3);
+    expect(listener.chunks).to.be.gt(3);
+    expect(listener.progress).to.be.gt(listener.chunks);
+  });
+
+  it('should continue after rejections unless asked to stop', async () => {
+    rejected    = [1];
+    let results = await dl.signBatch(items);
+    expect(results.map((r) => r.status)).to.be.deep.eq(['signed', 'rejected', 'signed']);
+    expect(results[1].error).to.be.instanceOf(UserRejectedError);
+
+    calls    = 0;
+    rejected = [0];
+    results  = await dl.signBatch(items, { stopOnRejection: true });
+    expect(results.map((r) => r.status)).to.be.deep.eq(['rejected', 'skipped', 'skipped']);
+  });
+
+  it('should report failures and skip items after cancellation', async () => {
+    items[1]         = { account, tx: { ...items[1].tx, amount: -1 } as Transaction };
+    const controller = new CancellationController();
+    const results    = await dl.signBatch(items, {
+      onProgress: ({ result }) => result && result.index === 1 && controller.abort(),
+      signal    : controller.signal,
+    });
+    expect(results.map((r) => r.status)).to.be.deep.eq(['signed', 'failed', 'skipped']);
+    expect(results[1].error.message).to.be.eq('Invalid amount');
+
+    expect((await dl.signBatch(items)).map((r) => r.status)).to.be.deep.eq(['signed', 'failed', 'signed']);
+    expect((await dl.signBatch(items, { stopOnError: true })).map((r) => r.status))
+      .to.be.deep.eq(['signed', 'failed', 'skipped']);
+  });
+});
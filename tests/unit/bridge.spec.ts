@@ -0,0 +1,178 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import * as WebSocket from 'ws';
+import {
+  BridgeClient,
+  BridgeError,
+  BridgeErrorCode,
+  CancellationController,
+  CommHandler,
+  DposLedger,
+  IProgressEvent,
+  LedgerAccount,
+  LedgerEmulator,
+  OperationCancelledError,
+  UserRejectedError,
+  verifyMessageSignature
+} from '../../src';
+import { BridgeServer } from '../../src/bridgeServer';
+
+chai.use(chaiAsPromised);
+
+describe('Bridge', () => {
+  const origin  = 'https://wallet.example.com';
+  const account = new LedgerAccount();
+  let confirmOnDevice: boolean;
+  let confirm: sinon.SinonSpy;
+  let emulator: LedgerEmulator;
+  let server: BridgeServer;
+  let baseUrl: string;
+  let client: BridgeClient;
+
+  const clientFor = (from: string) => new BridgeClient(baseUrl, {
+    createWebSocket: (url) => new WebSocket(url, { origin: from }),
+    headers        : { Origin: from },
+  });
+
+  const post = (body: string, from: string = origin) => (global as any).fetch(`${baseUrl}/rpc`, {
+    body,
+    headers: { 'Content-Type': 'application/json', 'Origin': from },
+    method : 'POST',
+  });
+
+  beforeEach(async () => {
+    confirmOnDevice = true;
+    confirm         = sinon.spy(() => true);
+    emulator        = new LedgerEmulator(Buffer.alloc(32).fill(5), { confirm: () => confirmOnDevice });
+    server          = new BridgeServer(new DposLedger(new CommHandler(emulator, 16)), {
+      allowedOrigins: [origin],
+      confirm,
+    });
+    baseUrl         = `http://127.0.0.1:${await server.listen()}`;
+    client          = clientFor(origin);
+  });
+
+  afterEach(async () => {
+    client.close();
+    await server.close();
+  });
+
+  it('should expose the DposLedger api', async () => {
+    const { publicKey, address } = await client.getPubKey(account, false, true);
+    expect(address).to.match(/^[0-9]+D$/);
+    const signature = await client.signMSG(account, 'vekexasia rules');
+    expect(verifyMessageSignature('vekexasia rules', signature, publicKey)).to.be.true;
+    const binary = await client.signMSG(account.toString(), new Buffer('0102', 'hex'));
+    expect(verifyMessageSignature(new Buffer('0102', 'hex'), binary, publicKey)).to.be.true;
+    expect(await client.version()).to.be.deep.eq({ coinID: 'all', version: '1.0.0' });
+    await client.ping();
+  });
+
+  it('should ask confirmation for every request', async () => {
+    await client.signMSG(account, 'hey');
+    expect(confirm.firstCall.args[0]).to.be.deep.eq({
+      method: 'signMSG',
+      origin,
+      params: { message: 'hey', path: account.toString() },
+    });
+    confirm = sinon.spy(() => Promise.resolve(false));
+    (server as any).options.confirm = confirm;
+    await expect(client.ping()).to.be.rejectedWith(BridgeError, 'Request was refused');
+  });
+
+  it('should stream progress to the requesting origin', async () => {
+    const events: IProgressEvent[] = [];
+    const other                    = sinon.spy();
+    const otherSocket              = new WebSocket(`${baseUrl.replace('http', 'ws')}/events`, { origin: 'http://evil' });
+    otherSocket.on('message', other);
+    otherSocket.on('error', () => void 0);
+    await client.signMSG(account, 'a quite long message to get more chunks', {
+      progressListener: { onProgress: (e) => events.push(e) },
+    });
+    await new Promise((r) => setTimeout(r, 20));
+    expect(events[0].phase).to.be.eq('transferring');
+    expect(events[events.length - 1].phase).to.be.eq('completed');
+    expect(events.filter((e) => e.phase === 'transferring').length).to.be.gt(2);
+    expect(other.called).to.be.false;
+    otherSocket.terminate();
+  });
+
+  it('should rethrow device errors as typed errors', async () => {
+    confirmOnDevice = false;
+    const failed    = sinon.spy();
+    await expect(client.signMSG(account, 'hey', { progressListener: { onProgress: failed } }))
+      .to.be.rejectedWith(UserRejectedError);
+    await new Promise((r) => setTimeout(r, 20));
+    const last = failed.lastCall.args[0];
+    expect(last.phase).to.be.eq('failed');
+    expect(last.error.message).to.contain('User rejected');
+  });
+
+  it('should refuse origins not allowed', async () => {
+    const res = await post(JSON.stringify({ id: 1, jsonrpc: '2.0', method: 'ping' }), 'http://evil');
+    expect(res.status).to.be.eq(403);
+    expect(res.headers.get('access-control-allow-origin')).to.be.null;
+    await expect(clientFor('http://evil').ping()).to.be.rejectedWith(BridgeError, 'not allowed');
+    expect(confirm.called).to.be.false;
+
+    const preflight = await (global as any).fetch(`${baseUrl}/rpc`, { method: 'OPTIONS', headers: { Origin: origin } });
+    expect(preflight.status).to.be.eq(204);
+    expect(preflight.headers.get('access-control-allow-origin')).to.be.eq(origin);
+  });
+
+  it('should forward cancellation to the bridge', async () => {
+    let allow: (v: boolean) => void;
+    (server as any).options.confirm = () => new Promise<boolean>((r) => allow = r);
+    const send       = sinon.spy(emulator, 'send');
+    const controller = new CancellationController();
+    const pending    = client.signMSG(account, 'hey', { signal: controller.signal });
+    while (!allow) {
+      await new Promise((r) => setTimeout(r, 2));
+    }
+    controller.abort();
+    await expect(pending).to.be.rejectedWith(OperationCancelledError);
+    await new Promise((r) => setTimeout(r, 20));
+    allow(true);
+    await new Promise((r) => setTimeout(r, 20));
+    expect(send.called).to.be.false;
+  });
+
+  it('should only cancel requests of the same origin', async () => {
+    const cancel = async (from: string) => (await (await post(
+      JSON.stringify({ id: 2, jsonrpc: '2.0', method: 'cancel', params: { id: 1 } }), from
+    )).json()).result;
+    let allow: (v: boolean) => void;
+    (server as any).options.confirm = () => new Promise<boolean>((r) => allow = r);
+    (server as any).options.allowedOrigins.push('http://other');
+    const pending = post(JSON.stringify({ id: 1, jsonrpc: '2.0', method: 'ping' }));
+    while (!allow) {
+      await new Promise((r) => setTimeout(r, 2));
+    }
+    expect(await cancel('http://other')).to.be.false;
+    expect(await cancel(origin)).to.be.true;
+    allow(true);
+    expect((await (await pending).json()).error.data.name).to.be.eq('OperationCancelledError');
+  });
+
+  it('should refuse bodies exceeding maxBodySize', async () => {
+    const res = await post(JSON.stringify({ id: 1, jsonrpc: '2.0', method: 'signMSG', params: {
+      message: 'a'.repeat(300000), path: account.toString(),
+    }}));
+    expect(res.status).to.be.eq(413);
+    expect(res.headers.get('connection')).to.be.eq('close');
+    expect(confirm.called).to.be.false;
+  });
+
+  it('should validate json-rpc requests', async () => {
+    const codeOf = async (body: string) => (await (await post(body)).json()).error.code;
+    expect(await codeOf('{')).to.be.eq(BridgeErrorCode.PARSE_ERROR);
+    expect(await codeOf('{"id":1,"method":"ping"}')).to.be.eq(BridgeErrorCode.INVALID_REQUEST);
+    expect(await codeOf('{"id":1,"jsonrpc":"2.0","method":"format"}')).to.be.eq(BridgeErrorCode.METHOD_NOT_FOUND);
+    expect(await codeOf('{"id":1,"jsonrpc":"2.0","method":"signMSG","params":{"path":"44\'/134\'/0\'"}}'))
+      .to.be.eq(BridgeErrorCode.INVALID_PARAMS);
+    expect(await codeOf('{"id":1,"jsonrpc":"2.0","method":"signTX","params":{"path":"meow","tx":"00"}}'))
+      .to.be.eq(BridgeErrorCode.INVALID_PARAMS);
+  });
+});
@@ -0,0 +1,119 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {
+  CancellationController,
+  CommHandler,
+  DposLedger,
+  LedgerAccount,
+  LedgerEmulator,
+  OperationCancelledError,
+  OperationTimeoutError,
+  verifyMessageSignature
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('Cancellation', () => {
+  const seed    = Buffer.alloc(32).fill(2);
+  const account = new LedgerAccount();
+  const message = 'a message long enough to need several chunks';
+
+  describe('CancellationController', () => {
+    it('should notify listeners once', () => {
+      const controller = new CancellationController();
+      const listener   = sinon.spy();
+      const removed    = sinon.spy();
+      controller.signal.addEventListener('abort', listener);
+      controller.signal.addEventListener('abort', removed);
+      controller.signal.removeEventListener('abort', removed);
+      expect(controller.signal.aborted).to.be.false;
+      controller.abort();
+      controller.abort();
+      expect(controller.signal.aborted).to.be.true;
+      expect(listener.calledOnce).to.be.true;
+      expect(removed.called).to.be.false;
+    });
+  });
+
+  describe('CommHandler', () => {
+    let emulator: LedgerEmulator;
+    let spy: sinon.SinonSpy;
+    let comm: CommHandler;
+    let dl: DposLedger;
+    beforeEach(() => {
+      emulator = new LedgerEmulator(seed);
+      spy      = sinon.spy(emulator, 'send');
+      comm     = new CommHandler(emulator, 16);
+      dl       = new DposLedger(comm);
+    });
+
+    it('should reject without sending anything if signal was already aborted', async () => {
+      const controller = new CancellationController();
+      controller.abort();
+      await expect(dl.signMSG(account, message, { signal: controller.signal }))
+        .to.be.rejectedWith(OperationCancelledError);
+      expect(spy.called).to.be.false;
+    });
+
+    it('should stop sending chunks when aborted and leave device clean', async () => {
+      const controller = new CancellationController();
+      spy.restore();
+      const stub = sinon.stub(emulator, 'send').callsFake(function() {
+        if (stub.callCount === 2) {
+          controller.abort();
+        }
+        return stub.wrappedMethod.apply(emulator, arguments);
+      });
+      await expect(dl.signMSG(account, message, { signal: controller.signal }))
+        .to.be.rejectedWith(OperationCancelledError);
+      await new Promise((r) => setTimeout(r, 10));
+      expect(stub.getCalls().map((c) => c.args[1])).to.be.deep.eq([89, 90]);
+
+      const { publicKey } = await dl.getPubKey(account);
+      const signature     = await dl.signMSG(account, message);
+      expect(verifyMessageSignature(message, signature, publicKey)).to.be.true;
+    });
+
+    it('should drop cancelled exchanges still waiting in queue', async () => {
+      const controller = new CancellationController();
+      const running    = dl.version();
+      const cancelled  = dl.signMSG(account, message, { signal: controller.signal });
+      controller.abort();
+      await expect(cancelled).to.be.rejectedWith(OperationCancelledError);
+      expect(comm.stalled).to.be.false;
+      await running;
+      expect(spy.getCalls().map((c) => c.args[1])).to.be.deep.eq([89, 90, 91]);
+    });
+
+    it('should time out while waiting for user confirmation', async () => {
+      let confirm: (v: boolean) => void;
+      emulator  = new LedgerEmulator(seed, { confirm: () => new Promise<boolean>((r) => confirm = r) });
+      comm      = new CommHandler(emulator);
+      dl        = new DposLedger(comm);
+      const err = await dl.signMSG(account, message, { confirmationTimeout: 10 })
+        .catch((e) => e);
+      expect(err).to.be.instanceOf(OperationTimeoutError);
+      expect(err).to.be.instanceOf(OperationCancelledError);
+      expect(err.phase).to.be.eq('confirmation');
+      expect(comm.stalled).to.be.true;
+
+      // next command runs once the user acted on the pending prompt.
+      const ping = dl.ping();
+      confirm(true);
+      await ping;
+      expect(comm.stalled).to.be.false;
+    });
+
+    it('should time out during transfer using handler defaults', async () => {
+      comm.transferTimeout = 5;
+      spy.restore();
+      sinon.stub(emulator, 'send').callsFake(() => new Promise((r) => setTimeout(() => r(new Buffer('9000', 'hex')), 20)));
+      const err = await dl.signMSG(account, message).catch((e) => e);
+      expect(err).to.be.instanceOf(OperationTimeoutError);
+      expect(err.phase).to.be.eq('transfer');
+      expect(err.timeout).to.be.eq(5);
+    });
+  });
+});
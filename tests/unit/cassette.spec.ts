@@ -0,0 +1,64 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import {
+  CassetteMismatchError,
+  CommHandler,
+  DposLedger,
+  ICassette,
+  IncorrectDataError,
+  LedgerAccount,
+  LedgerEmulator,
+  RecordingTransport,
+  ReplayTransport,
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('cassette', () => {
+  const account = new LedgerAccount();
+  let cassette: ICassette;
+  let recorded: { publicKey: string, address: string };
+  let signature: Buffer;
+
+  beforeEach(async () => {
+    const recorder = new RecordingTransport(new LedgerEmulator(Buffer.alloc(32).fill(1)));
+    const dl       = new DposLedger(new CommHandler(recorder));
+    recorded       = await dl.getPubKey(account);
+    signature      = await dl.signMSG(account, 'hey');
+    await expect(new CommHandler(recorder).exchange(0x11)).to.be.rejected;
+    cassette = JSON.parse(JSON.stringify(recorder.cassette));
+  });
+
+  it('should record every exchange', () => {
+    // 3 exchanges: start + chunk + close each.
+    expect(cassette.interactions.length).to.be.eq(9);
+    expect(cassette.interactions[0].request).to.be.deep.eq({ cla: 0xe0, ins: 89, p1: 0, p2: 0, data: '000f' });
+    expect(cassette.interactions[2].request.data).to.be.null;
+    expect(cassette.interactions[8].error.statusCode).to.be.eq(0x6a80);
+  });
+
+  it('should replay the recorded session', async () => {
+    const replay = new ReplayTransport(cassette);
+    const dl     = new DposLedger(new CommHandler(replay));
+    expect(await dl.getPubKey(account)).to.be.deep.eq(recorded);
+    expect(await dl.signMSG(account, 'hey')).to.be.deep.eq(signature);
+    await expect(new CommHandler(replay).exchange(0x11)).to.be.rejectedWith(IncorrectDataError);
+    replay.assertDone();
+  });
+
+  it('should fail loudly on divergence', async () => {
+    const replay = new ReplayTransport(cassette);
+    const dl     = new DposLedger(new CommHandler(replay));
+    await expect(dl.getPubKey(new LedgerAccount().account(1)))
+      .to.be.rejectedWith(CassetteMismatchError, 'Request #1 diverged on data');
+  });
+
+  it('should fail if cassette is exhausted or not fully replayed', async () => {
+    const replay = new ReplayTransport({ version: 1, interactions: cassette.interactions.slice(0, 3) });
+    const dl     = new DposLedger(new CommHandler(replay));
+    expect(() => replay.assertDone()).to.throw(CassetteMismatchError);
+    await dl.getPubKey(account);
+    await expect(dl.ping()).to.be.rejectedWith(CassetteMismatchError, 'no more interactions');
+  });
+});
@@ -0,0 +1,152 @@
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { ICliContext, runCli } from '../../src/cli';
+import {
+  CommHandler,
+  deriveAddress,
+  DposLedger,
+  LedgerAccount,
+  LedgerEmulator,
+  serializeTransaction,
+  SupportedCoin,
+  TransactionType,
+  verifyMessageSignature,
+  verifyTransactionSignature
+} from '../../src';
+
+describe('cli', () => {
+  const seed = Buffer.alloc(32).fill(11);
+  let ctx: ICliContext;
+  let out: string[];
+  let err: string[];
+  let emulator: LedgerEmulator;
+  let expectedKey: string;
+
+  beforeEach(async () => {
+    out      = [];
+    err      = [];
+    emulator = new LedgerEmulator(seed);
+    ctx      = {
+      createTransport: async () => emulator,
+      stderr         : (line) => err.push(line),
+      stdout         : (line) => out.push(line),
+    };
+    expectedKey = (await new DposLedger(new CommHandler(new LedgerEmulator(seed)))
+      .getPubKey(new LedgerAccount().account(2))).publicKey;
+  });
+
+  it('should print publicKey and address', async () => {
+    expect(await runCli(['pubkey', '--account', '2'], ctx)).to.be.eq(0);
+    expect(out[0]).to.be.eq(`Public key: ${expectedKey}`);
+    expect(out[1]).to.match(/^Address: [0-9]+D$/);
+  });
+
+  it('should verify the address only with --verify', async () => {
+    const getPubKey = sinon.spy(DposLedger.prototype, 'getPubKey');
+    try {
+      expect(await runCli(['pubkey'], ctx)).to.be.eq(0);
+      expect(await runCli(['pubkey', '--verify'], ctx)).to.be.eq(0);
+      expect(getPubKey.getCalls().map((c) => c.args[2])).to.be.deep.eq([false, true]);
+    } finally {
+      getPubKey.restore();
+    }
+  });
+
+  it('should accept bip32 paths and print json', async () => {
+    const confirm = sinon.spy(() => true);
+    emulator      = new LedgerEmulator(seed, { confirm });
+    expect(await runCli(['pubkey', '--path', '44\'/134\'/2\'', '--json', '--show'], ctx)).to.be.eq(0);
+    expect(JSON.parse(out[0]).publicKey).to.be.eq(expectedKey);
+    expect(confirm.calledOnce).to.be.true;
+  });
+
+  it('should use --coin', async () => {
+    emulator = new LedgerEmulator(seed, { coinID: 'rise' });
+    expect(await runCli(['pubkey', '--coin', 'rise', '--json'], ctx)).to.be.eq(0);
+    expect(JSON.parse(out[0]).address).to.match(/R$/);
+    expect(await runCli(['pubkey', '--coin', String(SupportedCoin.RISE), '--json'], ctx)).to.be.eq(0);
+    expect(out[1]).to.be.eq(out[0]);
+  });
+
+  it('should sign messages', async () => {
+    expect(await runCli(['sign-msg', 'vekexasia rules', '--account', '2'], ctx)).to.be.eq(0);
+    expect(verifyMessageSignature('vekexasia rules', out[0], expectedKey)).to.be.true;
+    expect(await runCli(['sign-msg', '0102', '--hex', '--account', '2', '--json'], ctx)).to.be.eq(0);
+    expect(verifyMessageSignature(new Buffer('0102', 'hex'), JSON.parse(out[1]).signature, expectedKey)).to.be.true;
+  });
+
+  it('should sign transaction bytes and json files', async () => {
+    const tx = {
+      amount         : 100,
+      asset          : {},
+      fee            : 10000000,
+      recipientId    : '15610359283786884938L',
+      senderPublicKey: expectedKey,
+      timestamp      : 10,
+      type           : TransactionType.SEND,
+    };
+    ctx.readFile = sinon.spy(() => JSON.stringify(tx));
+    const bytes  = serializeTransaction(tx as any).toString('hex');
+    expect(await runCli(['sign-tx', bytes, '--account', '2'], ctx)).to.be.eq(0);
+    expect(await runCli(['sign-tx', '--file', 'tx.json', '--account', '2'], ctx)).to.be.eq(0);
+    expect((ctx.readFile as sinon.SinonSpy).calledWith('tx.json')).to.be.true;
+    expect(out[0]).to.be.eq(out[1]);
+    expect(verifyTransactionSignature(tx as any, out[0], expectedKey)).to.be.true;
+  });
+
+  it('should print version and ping', async () => {
+    expect(await runCli(['version'], ctx)).to.be.eq(0);
+    expect(await runCli(['ping'], ctx)).to.be.eq(0);
+    expect(out).to.be.deep.eq(['Version: 1.0.0', 'CoinID: all', 'PONG']);
+  });
+
+  it('should discover used accounts through the node', async () => {
+    const used: string[] = [];
+    for (const index of [0, 1]) {
+      used.push(deriveAddress((await new DposLedger(new CommHandler(new LedgerEmulator(seed)))
+        .getPubKey(new LedgerAccount().account(index))).publicKey));
+    }
+    ctx.fetchJson = sinon.spy(async (url: string) => ({ data: used.filter((a) => url.indexOf(a) !== -1) }));
+    expect(await runCli(['discover', '--node', 'http://node/', '--gap', '2', '--json'], ctx)).to.be.eq(0);
+    const found = JSON.parse(out[0]);
+    expect(found.map((a) => a.address)).to.be.deep.eq(used);
+    expect(found[1].path).to.be.eq(new LedgerAccount().account(1).toString());
+    expect((ctx.fetchJson as sinon.SinonSpy).firstCall.args[0])
+      .to.be.eq(`http://node/api/accounts?address=${used[0]}`);
+  });
+
+  it('should report usage errors', async () => {
+    expect(await runCli([], ctx)).to.be.eq(2);
+    expect(await runCli(['meow'], ctx)).to.be.eq(2);
+    expect(err[0]).to.be.eq('Error: Unknown command meow');
+    expect(await runCli(['sign-msg'], ctx)).to.be.eq(2);
+    expect(await runCli(['pubkey', '--path'], ctx)).to.be.eq(2);
+    expect(await runCli(['pubkey', '--path', '44\'', '--coin', 'rise'], ctx)).to.be.eq(2);
+    expect(await runCli(['--help'], ctx)).to.be.eq(0);
+  });
+
+  it('should validate arguments before connecting to the device', async () => {
+    const createTransport = sinon.spy(ctx, 'createTransport');
+    expect(await runCli(['meow'], ctx)).to.be.eq(2);
+    expect(await runCli(['sign-msg', 'zz', '--hex'], ctx)).to.be.eq(2);
+    expect(await runCli(['pubkey', '--account', '-1'], ctx)).to.be.eq(2);
+    expect(await runCli(['discover'], ctx)).to.be.eq(2);
+    expect(createTransport.called).to.be.false;
+  });
+
+  it('should close the transport once done', async () => {
+    const close = sinon.spy();
+    ctx.createTransport = async () => Object.assign(emulator, { close });
+    expect(await runCli(['ping'], ctx)).to.be.eq(0);
+    expect(close.calledOnce).to.be.true;
+    emulator = new LedgerEmulator(seed, { confirm: () => false });
+    expect(await runCli(['sign-msg', 'hey'], ctx)).to.be.eq(1);
+    expect(close.calledTwice).to.be.true;
+  });
+
+  it('should report device errors', async () => {
+    emulator = new LedgerEmulator(seed, { confirm: () => false });
+    expect(await runCli(['sign-msg', 'hey'], ctx)).to.be.eq(1);
+    expect(err).to.be.deep.eq(['Error: User rejected the operation on the device (0x6985)']);
+  });
+});
@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import {
+  CoinRegistry,
+  coinRegistry,
+  coinAddressSuffix,
+  deriveAddress,
+  ICoinDefinition,
+  LedgerAccount,
+  UnknownCoinError,
+} from '../../src';
+
+describe('coinRegistry', () => {
+  const shift: ICoinDefinition = {
+    addressSuffix: 'S',
+    epoch        : new Date(Date.UTC(2016, 4, 24, 17, 0, 0, 0)),
+    messagePrefix: 'dPoS Signed Message:\n',
+    name         : 'Shift',
+    slip44       : 2000,
+  };
+  afterEach(() => coinRegistry.unregister('shift'));
+
+  it('should have LISK and RISE pre-registered', () => {
+    expect(coinRegistry.get(134)).to.include({ name: 'Lisk', addressSuffix: 'L' });
+    expect(coinRegistry.get('rise')).to.include({ slip44: 1120, addressSuffix: 'R' });
+  });
+
+  it('should allow registering new coins used by coin aware helpers', () => {
+    coinRegistry.register(shift);
+    const acc = new LedgerAccount().coinIndex('Shift');
+    expect(acc.toString()).to.be.eq(`m/44'/2000'/0'`);
+    expect(acc.coin()).to.include({ name: 'Shift' });
+    expect(coinAddressSuffix(2000)).to.be.eq('S');
+    expect(deriveAddress(new Buffer(32), 2000)).to.match(/S$/);
+  });
+
+  it('should reject coin names not registered', () => {
+    expect(() => new LedgerAccount().coinIndex('shift')).to.throw(UnknownCoinError, 'Unknown coin shift');
+  });
+
+  it('should not alter registered definitions when caller mutates its object', () => {
+    const def = { ...shift };
+    coinRegistry.register(def);
+    def.addressSuffix = 'X';
+    expect(coinRegistry.get(2000).addressSuffix).to.be.eq('S');
+  });
+
+  it('should reject duplicates and invalid definitions', () => {
+    const registry = new CoinRegistry().register(shift);
+    expect(() => registry.register(shift)).to.throw('already registered');
+    expect(() => registry.register({ ...shift, slip44: 1, name: 'SHIFT' })).to.throw('already registered');
+    expect(() => registry.register({ ...shift, name: 'a', slip44: -1 })).to.throw('slip44');
+    expect(() => registry.register({ ...shift, name: 'a', slip44: 1, addressSuffix: 'l' })).to.throw('suffix');
+    expect(() => registry.register({ ...shift, name: 'a', slip44: 1, epoch: new Date('x') })).to.throw('epoch');
+  });
+
+  it('should unregister coins', () => {
+    coinRegistry.register(shift);
+    expect(coinRegistry.unregister(2000)).is.true;
+    expect(coinRegistry.unregister(2000)).is.false;
+    expect(coinRegistry.get('shift')).to.be.undefined;
+  });
+
+  it('should compute timestamps relative to the coin epoch', () => {
+    expect(coinRegistry.timestamp('lisk', new Date(Date.UTC(2016, 4, 24, 17, 0, 10, 0)))).to.be.eq(10);
+    expect(() => coinRegistry.timestamp('nope')).to.throw('Unknown coin nope');
+  });
+
+  it('should keep unregistered numeric coin indexes working', () => {
+    expect(new LedgerAccount().coinIndex(2).coin()).to.be.undefined;
+  });
+});
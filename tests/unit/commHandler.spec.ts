@@ -0,0 +1,132 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {
+  CommHandler,
+  CrcMismatchError,
+  DposLedger,
+  IProgressEvent,
+  LedgerAccount,
+  LedgerEmulator,
+  UserRejectedError
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('CommHandler retries', () => {
+  let emulator: LedgerEmulator;
+  let comm: CommHandler;
+  let stub: sinon.SinonStub;
+  let corrupted: number[];
+
+  beforeEach(() => {
+    emulator         = new LedgerEmulator(Buffer.alloc(32).fill(3));
+    comm             = new CommHandler(emulator);
+    comm.retryPolicy = { backoffFactor: 2, initialDelay: 1, maxAttempts: 3, maxDelay: 3 };
+    corrupted        = [];
+    stub             = sinon.stub(emulator, 'send').callsFake(async (cla, ins, p1, p2, data) => {
+      const res = await stub.wrappedMethod.call(emulator, cla, ins, p1, p2, data);
+      if (corrupted.indexOf(stub.callCount) !== -1) {
+        // flip first byte of curCRC.
+        res[3] ^= 0xff;
+      }
+      return res;
+    });
+  });
+
+  it('should restart the comm flow after a CRC failure', async () => {
+    const onRetry  = sinon.spy();
+    const listener = { onChunkProcessed: sinon.spy(), onEnd: sinon.spy(), onStart: sinon.spy(), onRetry };
+    comm.progressListener = listener;
+    corrupted = [2];
+    await new DposLedger(comm).ping();
+    expect(stub.getCalls().map((c) => c.args[1])).to.be.deep.eq([89, 90, 89, 90, 91]);
+    expect(listener.onStart.calledOnce).to.be.true;
+    expect(listener.onEnd.calledOnce).to.be.true;
+    expect(listener.onStart.calledBefore(onRetry)).to.be.true;
+    expect(onRetry.calledOnce).to.be.true;
+    expect(onRetry.firstCall.args[0]).to.be.eq(2);
+    expect(onRetry.firstCall.args[1]).to.be.instanceOf(CrcMismatchError);
+    expect(onRetry.firstCall.args[2]).to.be.eq(1);
+  });
+
+  it('should back off and throw once attempts are exhausted', async () => {
+    const onRetry  = sinon.spy();
+    const listener = { onChunkProcessed: sinon.spy(), onEnd: sinon.spy(), onStart: sinon.spy(), onRetry };
+    comm.progressListener = listener;
+    corrupted = [2, 4, 6];
+    await expect(new DposLedger(comm).ping()).to.be.rejectedWith(CrcMismatchError);
+    expect(stub.callCount).to.be.eq(6);
+    expect(listener.onStart.calledOnce).to.be.true;
+    expect(listener.onEnd.called).to.be.false;
+    expect(onRetry.getCalls().map((c) => c.args[2])).to.be.deep.eq([1, 2]);
+  });
+
+  it('should not retry when disabled', async () => {
+    comm.retryPolicy = { ...comm.retryPolicy, maxAttempts: 1 };
+    corrupted = [2];
+    await expect(new DposLedger(comm).ping()).to.be.rejectedWith(CrcMismatchError);
+    expect(stub.callCount).to.be.eq(2);
+  });
+});
+
+describe('CommHandler progress', () => {
+  let comm: CommHandler;
+  beforeEach(() => {
+    comm = new CommHandler(new LedgerEmulator(Buffer.alloc(32).fill(3)), 16);
+  });
+
+  it('should report phases, bytes and chunks to the per call listener', async () => {
+    const events: IProgressEvent[] = [];
+    const listener = { onEnd: sinon.spy(), onProgress: (e) => events.push(e), onStart: sinon.spy() };
+    await new DposLedger(comm).signMSG(new LedgerAccount(), 'a message long enough to need several chunks', {
+      progressListener: listener,
+    });
+    const total = events[0].totalBytes;
+    expect(listener.onStart.calledOnce).to.be.true;
+    expect(listener.onEnd.calledOnce).to.be.true;
+    // 1 + 1 + 12 bytes path + 2 + 1 + 44 bytes message.
+    expect(total).to.be.eq(61);
+    expect(events.map((e) => e.phase)).to.be.deep.eq([
+      'transferring', 'transferring', 'transferring', 'transferring', 'transferring',
+      'awaitingConfirmation', 'completed',
+    ]);
+    expect(events[0]).to.be.deep.eq({
+      attempt   : 1,
+      bytesSent : 0,
+      chunkCount: 4,
+      chunkIndex: -1,
+      percentage: 0,
+      phase     : 'transferring',
+      totalBytes: total,
+    });
+    expect(events.slice(1, 5).map((e) => e.chunkIndex)).to.be.deep.eq([0, 1, 2, 3]);
+    expect(events[1].bytesSent).to.be.eq(16);
+    expect(events[1].percentage).to.be.eq(Math.floor(1600 / total));
+    expect(events[5].bytesSent).to.be.eq(total);
+    expect(events[6].percentage).to.be.eq(100);
+  });
+
+  it('should notify both the handler and the per call listeners', async () => {
+    const global  = { onProgress: sinon.spy() };
+    const perCall = { onProgress: sinon.spy() };
+    comm.progressListener = global;
+    await new DposLedger(comm).ping({ progressListener: perCall });
+    await new DposLedger(comm).ping();
+    expect(global.onProgress.callCount).to.be.eq(8);
+    expect(perCall.onProgress.callCount).to.be.eq(4);
+  });
+
+  it('should report failures', async () => {
+    const emulator = new LedgerEmulator(Buffer.alloc(32).fill(3), { confirm: () => false });
+    const events: IProgressEvent[] = [];
+    await expect(new DposLedger(new CommHandler(emulator)).signMSG(new LedgerAccount(), 'hey', {
+      progressListener: { onProgress: (e) => events.push(e) },
+    })).to.be.rejectedWith(UserRejectedError);
+    const last = events[events.length - 1];
+    expect(last.phase).to.be.eq('failed');
+    expect(last.error).to.be.instanceOf(UserRejectedError);
+    expect(last.percentage).to.be.eq(100);
+  });
+});
@@ -0,0 +1,112 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {
+  CommandDroppedError,
+  CommandQueue,
+  CommHandler,
+  CommPriority,
+  DposLedger,
+  LedgerAccount,
+  LedgerEmulator
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('CommandQueue', () => {
+  let queue: CommandQueue;
+  let order: string[];
+  beforeEach(() => {
+    queue = new CommandQueue();
+    order = [];
+  });
+
+  const task = (name: string, result: any = name) => async () => {
+    order.push(name);
+    return result;
+  };
+
+  it('should run one task at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const slow = async () => {
+      running++;
+      maxRunning = Math.max(running, maxRunning);
+      await new Promise((r) => setTimeout(r, 5));
+      running--;
+    };
+    await Promise.all([queue.push(slow), queue.push(slow), queue.push(slow)]);
+    expect(maxRunning).to.be.eq(1);
+    expect(queue.busy).to.be.false;
+  });
+
+  it('should run higher priorities first and keep insertion order within same priority', async () => {
+    const all = Promise.all([
+      queue.push(task('first'), CommPriority.BACKGROUND),
+      queue.push(task('bg'), CommPriority.BACKGROUND),
+      queue.push(task('normal'), CommPriority.NORMAL),
+      queue.push(task('user1'), CommPriority.USER),
+      queue.push(task('user2'), CommPriority.USER),
+    ]);
+    expect(queue.length).to.be.eq(4);
+    expect(queue.lengthOf(CommPriority.USER)).to.be.eq(2);
+    expect(await all).to.be.deep.eq(['first', 'bg', 'normal', 'user1', 'user2']);
+    // first was already scheduled when others got pushed.
+    expect(order).to.be.deep.eq(['first', 'user1', 'user2', 'normal', 'bg']);
+  });
+
+  it('should propagate rejections and keep going', async () => {
+    const failing = queue.push(() => Promise.reject(new Error('meow')));
+    const next    = queue.push(task('next'));
+    await expect(failing).to.be.rejectedWith('meow');
+    expect(await next).to.be.eq('next');
+  });
+
+  it('should drop pending tasks up to given priority', async () => {
+    const running = queue.push(task('running'), CommPriority.BACKGROUND);
+    const bg      = queue.push(task('bg'), CommPriority.BACKGROUND);
+    const normal  = queue.push(task('normal'), CommPriority.NORMAL);
+    const user    = queue.push(task('user'), CommPriority.USER);
+    expect(queue.drop()).to.be.eq(1);
+    await expect(bg).to.be.rejectedWith(CommandDroppedError);
+    expect(queue.drop(CommPriority.NORMAL)).to.be.eq(1);
+    await expect(normal).to.be.rejectedWith(CommandDroppedError);
+    expect(await running).to.be.eq('running');
+    expect(await user).to.be.eq('user');
+    expect(order).to.be.deep.eq(['running', 'user']);
+  });
+});
+
+describe('CommHandler queue', () => {
+  it('should not interleave concurrent exchanges', async () => {
+    const emulator = new LedgerEmulator(Buffer.alloc(32).fill(1));
+    const spy      = sinon.spy(emulator, 'send');
+    const comm     = new CommHandler(emulator, 16);
+    const dl       = new DposLedger(comm);
+    await Promise.all([
+      dl.signMSG(new LedgerAccount(), 'a message long enough to need several chunks'),
+      dl.ping(),
+      dl.version(),
+    ]);
+    const calls     = spy.getCalls().map((c) => c.args);
+    const sequences = calls.map((args) => args[1]).join(',').split(',91').filter((s) => s.length);
+    // Each exchange is a start (89), chunks (90) and close (91) without anything in between.
+    expect(sequences).to.have.lengthOf(3);
+    sequences.forEach((s) => expect(s.replace(/^,/, '')).to.match(/^89(,90)+$/));
+    // ping runs last as it has background priority.
+    expect(calls[calls.length - 2][4]).to.be.deep.eq(new Buffer([0x08]));
+    expect(comm.queueLength).to.be.eq(0);
+  });
+
+  it('should allow dropping pending background exchanges', async () => {
+    const comm    = new CommHandler(new LedgerEmulator(Buffer.alloc(32).fill(1)));
+    const dl      = new DposLedger(comm);
+    const version = dl.version();
+    const ping    = dl.ping();
+    expect(comm.queueLengthOf(CommPriority.BACKGROUND)).to.be.eq(1);
+    expect(comm.dropPending()).to.be.eq(1);
+    await expect(ping).to.be.rejectedWith(CommandDroppedError);
+    expect((await version).version).to.be.eq('1.0.0');
+  });
+});
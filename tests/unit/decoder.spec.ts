@@ -0,0 +1,188 @@
+import { expect } from 'chai';
+import {
+  decodeTransaction,
+  DEVICE_MESSAGE_LINE_LENGTH,
+  DEVICE_MESSAGE_MAX_LINES,
+  formatAmount,
+  InvalidTransactionError,
+  previewMessage,
+  previewTransaction,
+  serializeTransaction,
+  Transaction,
+  TransactionType,
+} from '../../src';
+
+describe('decoder', () => {
+  const pubKey    = 'a305a6d48c50f2a74d6ec0d79e2d7a372a155ae8e736a8ac7b42de915e331acb';
+  const signature = 'e96c66573a67214867025fd478cadd363c0d558ef6d3e071dba4abfcb6cd01ab' +
+    'fb78814544137191ac70fe4e44dcf922d638c7d963ce08ccd1acdc5f9113cf01';
+  const base      = {
+    amount         : 0,
+    fee            : undefined as number,
+    senderPublicKey: pubKey,
+    timestamp      : 10,
+  };
+
+  describe('decodeTransaction', () => {
+    const txs: Transaction[] = [
+      { ...base, amount: 851000000, asset: { data: 'hey brotha :)' }, recipientId: '15610359283786884938L', type: 0 },
+      { ...base, asset: {}, recipientId: '15610359283786884938L', type: TransactionType.SEND },
+      { ...base, asset: { signature: { publicKey: pubKey } }, type: TransactionType.SECOND_SIGNATURE },
+      { ...base, asset: { delegate: { username: 'vekexasia' } }, type: TransactionType.DELEGATE },
+      { ...base, asset: { votes: [`+${pubKey}`, `-${pubKey}`] }, type: TransactionType.VOTE },
+      {
+        ...base,
+        asset: { multisignature: { min: 2, lifetime: 24, keysgroup: [`+${pubKey}`, `+${pubKey}`] } },
+        type : TransactionType.MULTISIGNATURE,
+      },
+    ];
+    for (const tx of txs) {
+      it(`should decode ${TransactionType[tx.type]} transaction`, () => {
+        expect(decodeTransaction(serializeTransaction(tx))).to.be.deep.eq(tx);
+      });
+    }
+
+    it('should decode requesterPublicKey, signature and signSignature if told so', () => {
+      const tx: Transaction = {
+        ...base,
+        asset             : { votes: ['+a', '-b'] },
+        requesterPublicKey: pubKey,
+        signSignature     : signature,
+        signature,
+        type              : TransactionType.VOTE,
+      };
+      expect(decodeTransaction(serializeTransaction(tx), {
+        hasRequesterPublicKey: true,
+        hasSignSignature     : true,
+        hasSignature         : true,
+      })).to.be.deep.eq(tx);
+    });
+
+    it('should use given address suffix', () => {
+      const bytes = serializeTransaction({ ...base, asset: {}, recipientId: '123R', type: TransactionType.SEND });
+      expect(decodeTransaction(bytes, { addressSuffix: 'R' }).recipientId).to.be.eq('123R');
+    });
+
+    it('should reject unknown tx types', () => {
+      const bytes = serializeTransaction({ ...base, asset: {}, type: TransactionType.SEND });
+      bytes[0]    = 11;
+      expect(() => decodeTransaction(bytes)).to.throw(InvalidTransactionError, 'Unknown transaction type 11');
+    });
+    it('should reject truncated data', () => {
+      const bytes = serializeTransaction({ ...base, asset: {}, type: TransactionType.SEND });
+      expect(() => decodeTransaction(bytes.slice(0, 52))).to.throw(InvalidTransactionError, 'truncated');
+      expect(() => decodeTransaction(bytes, { hasSignature: true })).to.throw(InvalidTransactionError, 'truncated');
+    });
+    it('should reject malformed second signature asset', () => {
+      const bytes = serializeTransaction({ ...base, asset: { signature: { publicKey: pubKey } }, type: 1 });
+      expect(() => decodeTransaction(bytes.slice(0, -1))).to.throw(InvalidTransactionError);
+    });
+  });
+
+  describe('previewTransaction', () => {
+    it('should show amount, recipient and data for send', () => {
+      expect(previewTransaction({
+        ...base,
+        amount     : 851000000,
+        asset      : { data: 'hey' },
+        recipientId: '15610359283786884938L',
+        type       : TransactionType.SEND,
+      })).to.be.deep.eq([
+        { title: 'Send', value: '8.51' },
+        { title: 'To', value: '15610359283786884938L' },
+        { title: 'Data', value: 'hey' },
+      ]);
+    });
+    it('should count added and removed votes', () => {
+      expect(previewTransaction({ ...base, asset: { votes: ['+a', '+b', '-c'] }, type: TransactionType.VOTE }))
+        .to.be.deep.eq([{ title: 'Vote', value: 'Added: 2 Removed: 1' }]);
+    });
+    it('should show second signature, delegate and multisignature screens', () => {
+      expect(previewTransaction({ ...base, asset: { signature: { publicKey: pubKey } }, type: 1 }))
+        .to.be.deep.eq([{ title: 'Create second signature', value: pubKey }]);
+      expect(previewTransaction({ ...base, asset: { delegate: { username: 'veke' } }, type: 2 }))
+        .to.be.deep.eq([{ title: 'Register delegate', value: 'veke' }]);
+      expect(previewTransaction({
+        ...base,
+        asset: { multisignature: { keysgroup: [`+${pubKey}`, `+${pubKey}`], lifetime: 24, min: 2 } },
+        type : TransactionType.MULTISIGNATURE,
+      })).to.be.deep.eq([
+        { title: 'Create multisignature', value: 'Keys: 2' },
+        { title: 'Min / Lifetime', value: '2 / 24h' },
+      ]);
+    });
+    it('should show requester', () => {
+      const screens = previewTransaction({
+        ...base,
+        asset             : { delegate: { username: 'veke' } },
+        requesterPublicKey: pubKey,
+        type              : TransactionType.DELEGATE,
+      });
+      expect(screens[screens.length - 1]).to.be.deep.eq({ title: 'Requester', value: pubKey });
+    });
+  });
+
+  describe('formatAmount', () => {
+    it('should format satoshi amounts', () => {
+      expect(formatAmount(0)).to.be.eq('0');
+      expect(formatAmount(51000000)).to.be.eq('0.51');
+      expect(formatAmount(100000000)).to.be.eq('1');
+      expect(formatAmount(1)).to.be.eq('0.00000001');
+      expect(formatAmount(123456789012)).to.be.eq('1234.56789012');
+    });
+  });
+
+  describe('previewMessage', () => {
+    it('should show printable messages as text', () => {
+      expect(previewMessage('vekexasia rules')).to.be.deep.eq({
+        binary           : false,
+        lines            : ['vekexasia rules'],
+        nonPrintableRatio: 0,
+        text             : 'vekexasia rules',
+        truncated        : false,
+      });
+    });
+
+    it('should show <binary data> if first byte is not printable', () => {
+      const preview = previewMessage(Buffer.concat([new Buffer('00', 'hex'), new Buffer('abcde', 'utf8')]));
+      expect(preview.binary).to.be.true;
+      expect(preview.text).to.be.eq('<binary data>');
+      expect(preview.lines).to.be.deep.eq(['<binary data>']);
+    });
+
+    it('should show <binary data> only if more than 40% is non printable', () => {
+      expect(previewMessage(Buffer.concat([new Buffer('abcde', 'utf8'), new Buffer('00000000', 'hex')])).binary)
+        .to.be.true;
+      const preview = previewMessage(Buffer.concat([new Buffer('abc', 'utf8'), new Buffer('000000', 'hex')]));
+      expect(preview.nonPrintableRatio).to.be.eq(0.5);
+      expect(preview.binary).to.be.true;
+      // exactly 40%
+      const mostlyText = previewMessage(Buffer.concat([new Buffer('abc', 'utf8'), new Buffer('0000', 'hex')]));
+      expect(mostlyText.binary).to.be.false;
+      expect(mostlyText.text).to.be.eq('abc??');
+    });
+
+    it('should wrap lines and break on new lines', () => {
+      expect(previewMessage('hey\nhi').lines).to.be.deep.eq(['hey', 'hi']);
+      expect(previewMessage('a'.repeat(40)).lines).to.be.deep.eq(['a'.repeat(16), 'a'.repeat(16), 'a'.repeat(8)]);
+      expect(previewMessage('a'.repeat(20) + '\n\nb', { lineLength: 8 }).lines)
+        .to.be.deep.eq(['aaaaaaaa', 'aaaaaaaa', 'aaaa', '', 'b']);
+    });
+
+    it('should truncate to maxLines', () => {
+      const preview = previewMessage('a'.repeat(40), { lineLength: 10, maxLines: 2 });
+      expect(preview.lines).to.be.deep.eq(['aaaaaaaaaa', 'aaaaaaaaaa']);
+      expect(preview.truncated).to.be.true;
+      expect(preview.text).to.have.lengthOf(40);
+    });
+
+    it('should use the device line length and max lines by default', () => {
+      const preview = previewMessage('a'.repeat(DEVICE_MESSAGE_LINE_LENGTH * (DEVICE_MESSAGE_MAX_LINES + 1)));
+      expect(preview.lines).to.have.lengthOf(DEVICE_MESSAGE_MAX_LINES);
+      expect(preview.lines[0]).to.be.eq('a'.repeat(DEVICE_MESSAGE_LINE_LENGTH));
+      expect(preview.truncated).to.be.true;
+      expect(previewMessage('a'.repeat(1000)).truncated).to.be.false;
+      expect(previewMessage('ab\n'.repeat(100), { maxLines: 0 }).lines).to.have.lengthOf(101);
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import { CommHandler, discoverAccounts, DposLedger, LedgerEmulator, SupportedCoin } from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('discoverAccounts', () => {
+  let dl: DposLedger;
+  beforeEach(() => {
+    // the multi coin app reports D addresses whatever the coin.
+    dl = new DposLedger(new CommHandler(new LedgerEmulator(Buffer.alloc(32).fill(4), { addressSuffix: 'D' })));
+  });
+
+  it('should stop after gapLimit unused accounts', async () => {
+    const used   = [0, 1, 3];
+    const isUsed = sinon.spy(({ index }) => used.indexOf(index) !== -1);
+    const found  = await discoverAccounts(dl, { isUsed, gapLimit: 2 });
+    expect(found.map((a) => a.index)).to.be.deep.eq([0, 1, 3]);
+    // 0,1 used - 2 unused - 3 used - 4,5 unused.
+    expect(isUsed.callCount).to.be.eq(6);
+    expect(found[0].address).to.match(/L$/);
+    expect(found[2].account.derivePath()).to.be.deep.eq(
+      new Buffer('8000002c8000008680000003', 'hex')
+    );
+  });
+
+  it('should scan each coin', async () => {
+    const found = await discoverAccounts(dl, {
+      coins : [SupportedCoin.LISK, SupportedCoin.RISE],
+      isUsed: ({ coin, index }) => coin === SupportedCoin.RISE && index < 2,
+      gapLimit: 1,
+    });
+    expect(found.map((a) => [a.coin, a.index])).to.be.deep.eq([[SupportedCoin.RISE, 0], [SupportedCoin.RISE, 1]]);
+    expect(found[0].address).to.match(/R$/);
+  });
+
+  it('should report progress for every account', async () => {
+    const onProgress = sinon.spy();
+    await discoverAccounts(dl, { isUsed: async ({ index }) => index === 0, gapLimit: 2, onProgress, startIndex: 0 });
+    expect(onProgress.callCount).to.be.eq(3);
+    expect(onProgress.firstCall.args[0]).to.include({ index: 0, used: true, gap: 0 });
+    expect(onProgress.thirdCall.args[0]).to.include({ index: 2, used: false, gap: 2 });
+  });
+
+  it('should validate options', async () => {
+    await expect(discoverAccounts(dl, {} as any)).to.be.rejectedWith('isUsed predicate must be provided');
+    await expect(discoverAccounts(dl, { isUsed: () => false, gapLimit: 0 })).to.be.rejectedWith('gapLimit');
+  });
+});
@@ -0,0 +1,48 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import { CommHandler, DposLedger, LedgerAccount, LedgerEmulator, SupportedCoin, UserRejectedError } from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('LedgerEmulator', () => {
+  const seed = new Buffer('000102030405060708090a0b0c0d0e0f', 'hex');
+
+  it('should derive keys following SLIP-0010 test vectors', () => {
+    const emulator = new LedgerEmulator(seed);
+    const { publicKey, secretKey } = emulator.deriveKeyPair([0x80000000]);
+    expect(new Buffer(secretKey.slice(0, 32) as any).toString('hex'))
+      .to.be.eq('68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3');
+    expect(new Buffer(publicKey as any).toString('hex'))
+      .to.be.eq('8c8a13df77a28f3445213a0f432fde644acaa215fc72dcdf300d5efaa85d350c');
+  });
+
+  it('should answer to commands through CommHandler', async () => {
+    const dl = new DposLedger(new CommHandler(new LedgerEmulator(seed)));
+    await dl.ping();
+    expect(await dl.version()).to.be.deep.eq({ version: '1.0.0', coinID: 'all' });
+    const { publicKey, address } = await dl.getPubKey(new LedgerAccount());
+    expect(publicKey).to.match(/^[0-9a-f]{64}$/);
+    expect(address).to.match(/^[0-9]+D$/);
+  });
+
+  it('should use the address suffix of the coinID app', async () => {
+    const dl = new DposLedger(new CommHandler(new LedgerEmulator(seed, { coinID: 'rise' })));
+    expect((await dl.getPubKey(new LedgerAccount().coinIndex(SupportedCoin.RISE))).address).to.match(/^[0-9]+R$/);
+  });
+
+  it('should emulate user rejection', () => {
+    const dl = new DposLedger(new CommHandler(new LedgerEmulator(seed, { confirm: () => false })));
+    return expect(dl.signMSG(new LedgerAccount(), 'hey')).to.be.rejectedWith(UserRejectedError);
+  });
+
+  it('should fail with 6a84 if payload exceeds the limit', () => {
+    const emulator = new LedgerEmulator(seed);
+    return expect(emulator.send(0xe0, 89, 0, 0, new Buffer('09c5', 'hex'))).to.be.rejectedWith('6a84');
+  });
+
+  it('should fail with 9802 if comm was not started', () => {
+    const emulator = new LedgerEmulator(seed);
+    return expect(emulator.send(0xe0, 90, 0, 0, Buffer.alloc(2))).to.be.rejectedWith('9802');
+  });
+});
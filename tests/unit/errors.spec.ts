@@ -0,0 +1,102 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as sinon from 'sinon';
+import { SinonStub } from 'sinon';
+import * as chaiAsPromised from 'chai-as-promised';
+import {
+  AppNotOpenError,
+  CommHandler,
+  CrcMismatchError,
+  DeviceLockedError,
+  DeviceStatusError,
+  DposLedger,
+  IncorrectDataError,
+  LedgerError,
+  MalformedResponseError,
+  mapTransportError,
+  PayloadTooLargeError,
+  statusCodeFromError,
+  UserRejectedError,
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('errors', () => {
+  describe('statusCodeFromError', () => {
+    it('should read statusCode property', () => {
+      expect(statusCodeFromError({ statusCode: 0x6985, message: 'whatever' })).to.be.eq(0x6985);
+    });
+    it('should parse legacy Invalid status messages', () => {
+      expect(statusCodeFromError(new Error('Invalid status 6a84'))).to.be.eq(0x6a84);
+    });
+    it('should return undefined if no status is available', () => {
+      expect(statusCodeFromError(new Error('boh'))).to.be.undefined;
+      expect(statusCodeFromError(null)).to.be.undefined;
+    });
+  });
+
+  describe('mapTransportError', () => {
+    const cases: Array<[number, any]> = [
+      [0x6985, UserRejectedError],
+      [0x6e00, AppNotOpenError],
+      [0x6982, DeviceLockedError],
+      [0x6a84, PayloadTooLargeError],
+      [0x6a80, IncorrectDataError],
+    ];
+    for (const [statusCode, errorClass] of cases) {
+      it(`should map ${statusCode.toString(16)} to ${errorClass.name}`, () => {
+        const err = mapTransportError({ statusCode });
+        expect(err).to.be.instanceOf(errorClass);
+        expect(err).to.be.instanceOf(DeviceStatusError);
+        expect(err).to.be.instanceOf(LedgerError);
+        expect(err['statusCode']).to.be.eq(statusCode);
+        expect(err.message).to.contain(statusCode.toString(16));
+      });
+    }
+    it('should map unknown status words to DeviceStatusError', () => {
+      const err = mapTransportError({ statusCode: 0x6f01 });
+      expect(err.constructor).to.be.eq(DeviceStatusError);
+      expect(err['statusCode']).to.be.eq(0x6f01);
+    });
+    it('should return the error untouched if it has no status word', () => {
+      const orig = new Error('disconnected');
+      expect(mapTransportError(orig)).to.be.eq(orig);
+    });
+  });
+
+  describe('CommHandler', () => {
+    let sendStub: SinonStub;
+    let comm: CommHandler;
+    beforeEach(() => {
+      sendStub = sinon.stub();
+      comm     = new CommHandler({ send: sendStub, setScrambleKey: sinon.stub() });
+    });
+
+    it('should map transport errors', () => {
+      sendStub.rejects({ statusCode: 0x6e00, message: 'Ledger device: CLA_NOT_SUPPORTED (0x6e00)' });
+      return expect(comm.exchange('aa')).to.be.rejectedWith(AppNotOpenError);
+    });
+    it('should throw CrcMismatchError with expected and received crc', async () => {
+      comm.retryPolicy = { ...comm.retryPolicy, maxAttempts: 1 };
+      sendStub.onCall(0).resolves(Buffer.alloc(0));
+      sendStub.onCall(1).resolves(new Buffer('0102000100', 'hex'));
+      const err = await comm.exchange('aabb').catch((e) => e);
+      expect(err).to.be.instanceOf(CrcMismatchError);
+      expect(err.received).to.be.eq(1);
+      expect(err.message).to.be.eq('Something went wrong during CRC validation');
+    });
+    it('should throw MalformedResponseError if response is truncated', () => {
+      sendStub.onCall(0).resolves(Buffer.alloc(0));
+      sendStub.onCall(1).resolves(new Buffer('020200', 'hex'));
+      return expect(comm.exchange('aabb')).to.be.rejectedWith(MalformedResponseError);
+    });
+  });
+
+  describe('DposLedger', () => {
+    it('should throw MalformedResponseError if ping does not receive PONG', () => {
+      const comm = { exchange: sinon.stub().resolves([new Buffer('PING', 'ascii')]) };
+      const dl   = new DposLedger(comm as any);
+      return expect(dl.ping()).to.be.rejectedWith(MalformedResponseError, 'Didnt receive PONG');
+    });
+  });
+});
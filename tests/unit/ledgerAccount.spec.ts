@@ -39,8 +39,52 @@ describe('LedgerAccount', () => {
 
   });
 
+  it('should allow change and addressIndex levels', () => {
+    const acc = new LedgerAccount().change(1).addressIndex(2, false);
+    expect(acc.derivePath().toString('hex')).to.be.eq(
+      '8000002c80000086800000008000000100000002'
+    );
+    expect(acc.toString()).to.be.eq(`m/44'/134'/0'/1'/2`);
+  });
+
+  it('should not allow addressIndex without change', () => {
+    expect(() => new LedgerAccount().addressIndex(1)).to.throw('Cannot set level 5 of a path with depth 3');
+  });
+
+  describe('fromString', () => {
+    it('should parse paths with and without root', () => {
+      expect(LedgerAccount.fromString(`m/44'/1120'/2'`).derivePath().toString('hex')).to.be.eq(
+        '8000002c8000046080000002'
+      );
+      expect(LedgerAccount.fromString(`44'/134'/0'/0/1`).toString()).to.be.eq(`m/44'/134'/0'/0/1`);
+    });
+    it('should round trip with toString', () => {
+      const path = `m/44'/134'/3'/0'/7`;
+      expect(LedgerAccount.fromString(path).toString()).to.be.eq(path);
+    });
+    it('should reject malformed paths', () => {
+      expect(() => LedgerAccount.fromString(`m/44'/abc`)).to.throw('Invalid path');
+      expect(() => LedgerAccount.fromString(`m/44'/1x`)).to.throw('Invalid path');
+      expect(() => LedgerAccount.fromString(`m/2147483648'`)).to.throw();
+    });
+    it('should reject paths deeper than the app allows', () => {
+      expect(() => LedgerAccount.fromString(`m/${new Array(11).fill(`1'`).join('/')}`))
+        .to.throw('Path depth must be between 1 and 10');
+    });
+  });
+
+  describe('fromBuffer', () => {
+    it('should decode derivePath output', () => {
+      const acc = new LedgerAccount().coinIndex(1120).account(5).change(0, false);
+      expect(LedgerAccount.fromBuffer(acc.derivePath()).toString()).to.be.eq(`m/44'/1120'/5'/0`);
+    });
+    it('should reject buffers not multiple of 4', () => {
+      expect(() => LedgerAccount.fromBuffer(Buffer.alloc(5))).to.throw('multiple of 4');
+    });
+  });
+
   describe('failures', () => {
-    const intFails = ['account', 'coinIndex'];
+    const intFails = ['account', 'coinIndex', 'change', 'addressIndex'];
 
     for (const intFail of intFails) {
       describe(intFail, () => {
@@ -49,11 +93,14 @@ describe('LedgerAccount', () => {
           expect(() => acc[intFail](NaN)).to.throw(/must be an integer/);
         });
         it('should fail if string', () => {
-          expect(() => acc[intFail]('1')).to.throw(/must be an integer/);
+          expect(() => acc[intFail]('1')).to.throw(intFail === 'coinIndex' ? /Unknown coin 1/ : /must be an integer/);
         });
         it('should fail if <0', () => {
           expect(() => acc[intFail](-1)).to.throw(/must be greater than zero/);
         });
+        it('should fail if > 2^31-1', () => {
+          expect(() => acc[intFail](0x80000000)).to.throw(/must be less than 2\^31/);
+        });
       });
     }
 
@@ -0,0 +1,85 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {
+  CommHandler,
+  DEFAULT_LIMITS,
+  DposLedger,
+  InvalidPathError,
+  LedgerAccount,
+  LedgerEmulator,
+  LimitExceededError,
+  limitsForVersion,
+  versionLimits
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('Limits', () => {
+  const account = new LedgerAccount();
+  let emulator: LedgerEmulator;
+  let spy: sinon.SinonSpy;
+  let dl: DposLedger;
+  beforeEach(() => {
+    emulator = new LedgerEmulator(Buffer.alloc(32).fill(5), { version: '9.9.9' });
+    spy      = sinon.spy(emulator, 'send');
+    dl       = new DposLedger(new CommHandler(emulator));
+  });
+
+  it('should reject payloads over maxPayloadSize without contacting the device', async () => {
+    const err = await dl.signTX(account, Buffer.alloc(2500)).catch((e) => e);
+    expect(err).to.be.instanceOf(LimitExceededError);
+    expect(err.limit).to.be.eq(2500);
+    // 1 + 1 + 12 (path) + 2 + 1 + 2500
+    expect(err.actual).to.be.eq(2517);
+    expect(err.message).to.be.eq('Payload size exceeds the limit: 2517 > 2500');
+    expect(spy.called).to.be.false;
+  });
+
+  it('should reject messages over maxMessageSize', async () => {
+    // 1 + 21 (prefix) + 3 + 976 = 1001
+    const err = await dl.signMSG(account, 'a'.repeat(976)).catch((e) => e);
+    expect(err).to.be.instanceOf(LimitExceededError);
+    expect(err.actual).to.be.eq(1001);
+    expect(spy.called).to.be.false;
+    await dl.signMSG(account, 'a'.repeat(975));
+  });
+
+  it('should reject paths deeper than maxPathDepth', async () => {
+    await expect(dl.getPubKey(Buffer.alloc(44))).to.be.rejectedWith(LimitExceededError, 'Path depth');
+    await expect(dl.getPubKey(Buffer.alloc(6))).to.be.rejectedWith(InvalidPathError, 'multiple of 4 bytes, got 6');
+    expect(spy.called).to.be.false;
+  });
+
+  it('should allow overriding limits', async () => {
+    dl = new DposLedger(new CommHandler(emulator), { maxPathDepth: 2 });
+    expect(dl.limits).to.be.deep.eq({ ...DEFAULT_LIMITS, maxPathDepth: 2 });
+    await expect(dl.getPubKey(account)).to.be.rejectedWith('Path depth exceeds the limit: 3 > 2');
+  });
+
+  it('should detect limits from app version', async () => {
+    versionLimits['9.9.9'] = { maxMessageSize: 10 };
+    try {
+      expect(await dl.detectLimits()).to.be.deep.eq({ ...DEFAULT_LIMITS, maxMessageSize: 10 });
+      await expect(dl.signMSG(account, 'long message')).to.be.rejectedWith(LimitExceededError);
+    } finally {
+      delete versionLimits['9.9.9'];
+    }
+    expect(limitsForVersion('9.9.9')).to.be.deep.eq(DEFAULT_LIMITS);
+  });
+
+  it('should refuse exchanges the protocol cannot represent', async () => {
+    await expect(new CommHandler(emulator).exchange(Buffer.alloc(65536)))
+      .to.be.rejectedWith('Payload size exceeds the limit: 65536 > 65535');
+  });
+
+  it('should reject (not throw) invalid exchange input', async () => {
+    const comm = new CommHandler(emulator);
+    let result: Promise<Buffer[]>;
+    expect(() => result = comm.exchange(null)).to.not.throw();
+    await expect(result).to.be.rejectedWith(TypeError);
+    await expect(comm.exchange(['e0', {} as any])).to.be.rejectedWith(TypeError);
+    expect(spy.called).to.be.false;
+  });
+});
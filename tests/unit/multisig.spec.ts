@@ -0,0 +1,106 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {
+  coSignTransaction,
+  CommHandler,
+  DposLedger,
+  InvalidTransactionError,
+  LedgerAccount,
+  LedgerEmulator,
+  MultisigTransaction,
+  multisigStatus,
+  NotKeysgroupMemberError,
+  TransactionType
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('multisig', () => {
+  const sender  = new LedgerAccount();
+  const members = [1, 2, 3].map((index) => new LedgerAccount().account(index));
+  let dl: DposLedger;
+  let keysgroup: string[];
+  let pending: MultisigTransaction;
+
+  beforeEach(async () => {
+    dl        = new DposLedger(new CommHandler(new LedgerEmulator(Buffer.alloc(32).fill(7))));
+    keysgroup = [];
+    for (const member of members) {
+      keysgroup.push((await dl.getPubKey(member)).publicKey);
+    }
+    const tx = {
+      amount            : 100,
+      asset             : {},
+      fee               : 10000000,
+      recipientId       : '15610359283786884938L',
+      requesterPublicKey: keysgroup[0],
+      senderPublicKey   : (await dl.getPubKey(sender)).publicKey,
+      timestamp         : 10,
+      type              : TransactionType.SEND,
+    } as MultisigTransaction;
+    pending = { ...tx, signature: (await dl.signTX(members[0], tx)).toString('hex') } as MultisigTransaction;
+  });
+
+  it('should accumulate co-signatures until min is reached', async () => {
+    const group  = { keysgroup: keysgroup.map((k) => `+${k}`), min: 2 };
+    const first  = await coSignTransaction(dl, members[1], pending, group);
+    expect(first.complete).to.be.false;
+    expect(first.signers).to.be.deep.eq([keysgroup[1]]);
+    expect(first.transaction.signatures).to.be.deep.eq([first.signature]);
+    expect(pending.signatures).to.be.undefined;
+
+    const second = await coSignTransaction(dl, members[2], first.transaction, group);
+    expect(second.complete).to.be.true;
+    expect(second.signers).to.be.deep.eq([keysgroup[1], keysgroup[2]]);
+    expect(second.missing).to.be.deep.eq([keysgroup[0]]);
+    expect(multisigStatus(second.transaction, group)).to.be.deep.eq({
+      complete: true,
+      missing : [keysgroup[0]],
+      required: 2,
+      signers : [keysgroup[1], keysgroup[2]],
+    });
+  });
+
+  it('should not sign twice with the same member', async () => {
+    const group                      = { keysgroup, min: 2 };
+    const { transaction, signature } = await coSignTransaction(dl, members[1], pending, group);
+    const signTX                     = sinon.spy(dl, 'signTX');
+    const again                      = await coSignTransaction(dl, members[1], transaction, group);
+    expect(signTX.called).to.be.false;
+    expect(again.transaction).to.be.eq(transaction);
+    expect(again.signature).to.be.eq(signature);
+  });
+
+  it('should match keysgroup entries regardless of their case', async () => {
+    const group       = { keysgroup: keysgroup.map((k) => `+${k.toUpperCase()}`), min: 2 };
+    const { signers } = await coSignTransaction(dl, members[1], pending, group);
+    expect(signers).to.be.deep.eq([keysgroup[1]]);
+  });
+
+  it('should refuse accounts not in keysgroup', async () => {
+    await expect(coSignTransaction(dl, sender, pending, { keysgroup, min: 2 }))
+      .to.be.rejectedWith(NotKeysgroupMemberError);
+  });
+
+  it('should require every member for multisignature registrations', async () => {
+    const registration = {
+      ...pending,
+      asset             : { multisignature: { keysgroup: keysgroup.slice(1).map((k) => `+${k}`), lifetime: 24, min: 1 } },
+      recipientId       : undefined,
+      requesterPublicKey: undefined,
+      type              : TransactionType.MULTISIGNATURE,
+    } as MultisigTransaction;
+    const { transaction } = await coSignTransaction(dl, members[1], registration);
+    expect(multisigStatus(transaction).complete).to.be.false;
+    expect((await coSignTransaction(dl, members[2], transaction)).complete).to.be.true;
+  });
+
+  it('should validate transaction and group', async () => {
+    await expect(coSignTransaction(dl, members[1], { ...pending, signature: undefined }, { keysgroup, min: 1 }))
+      .to.be.rejectedWith(InvalidTransactionError, 'signed by the sender');
+    await expect(coSignTransaction(dl, members[1], pending)).to.be.rejectedWith(InvalidTransactionError);
+    expect(() => multisigStatus(pending, { keysgroup, min: 4 })).to.throw(InvalidTransactionError);
+  });
+});
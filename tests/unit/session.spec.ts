@@ -0,0 +1,190 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import {
+  CancellationController,
+  InvalidPathError,
+  ITransport,
+  LedgerAccount,
+  LedgerEmulator,
+  LedgerSession,
+  OperationCancelledError,
+  OperationTimeoutError,
+  SessionClosedError,
+  SessionState,
+  UserRejectedError
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+type DeviceStatus = 'ok' | 'unplugged' | 'locked' | 'appClosed' | 'unresponsive';
+
+describe('LedgerSession', () => {
+  const account = new LedgerAccount();
+  let status: DeviceStatus;
+  let confirm: boolean | Promise<boolean>;
+  let factory: sinon.SinonSpy;
+  let closed: number;
+  let session: LedgerSession;
+  let states: SessionState[];
+
+  // Fake device whose transports die when it gets unplugged.
+  const createTransport = async (): Promise<ITransport> => {
+    if (status === 'unplugged') {
+      throw new Error('No device found');
+    }
+    const emulator = new LedgerEmulator(Buffer.alloc(32).fill(9), { confirm: () => confirm });
+    let alive      = true;
+    return {
+      close         : async () => {
+        alive = false;
+        closed++;
+      },
+      send          : (cla, ins, p1, p2, data) => {
+        if (!alive || status === 'unplugged') {
+          alive = false;
+          return Promise.reject(new Error('DisconnectedDevice'));
+        }
+        if (status === 'locked') {
+          return Promise.reject({ message: 'Locked', statusCode: 0x6982 });
+        }
+        if (status === 'appClosed') {
+          return Promise.reject({ message: 'CLA not supported', statusCode: 0x6e00 });
+        }
+        if (status === 'unresponsive') {
+          return new Promise<Buffer>(() => void 0);
+        }
+        return emulator.send(cla, ins, p1, p2, data);
+      },
+      setScrambleKey: () => void 0,
+    };
+  };
+
+  const waitFor = async (state: SessionState) => {
+    while (session.state !== state) {
+      await new Promise((r) => setTimeout(r, 2));
+    }
+  };
+
+  beforeEach(() => {
+    status  = 'ok';
+    confirm = true;
+    closed  = 0;
+    states  = [];
+    factory = sinon.spy(createTransport);
+    session = new LedgerSession(factory, { pingInterval: 10, pingTimeout: 20, reconnectDelay: 5, maxReconnectDelay: 20 });
+    session.onStateChange((state) => states.push(state));
+  });
+
+  afterEach(() => session.close());
+
+  it('should connect on open', async () => {
+    const ledger = await session.open();
+    expect(ledger).to.be.eq(session.ledger);
+    expect(session.state).to.be.eq(SessionState.CONNECTED);
+    expect(states).to.be.deep.eq([SessionState.CONNECTING, SessionState.CONNECTED]);
+  });
+
+  it('should keep retrying until the device is plugged', async () => {
+    status     = 'unplugged';
+    const open = session.open();
+    await new Promise((r) => setTimeout(r, 30));
+    expect(session.state).to.be.eq(SessionState.DISCONNECTED);
+    status = 'ok';
+    await open;
+    expect(factory.callCount).to.be.gt(2);
+    expect(states[states.length - 1]).to.be.eq(SessionState.CONNECTED);
+  });
+
+  it('should detect state changes through health checks and reconnect', async () => {
+    await session.open();
+    status = 'locked';
+    await waitFor(SessionState.LOCKED);
+    status = 'appClosed';
+    await waitFor(SessionState.APP_CLOSED);
+    status = 'unplugged';
+    await waitFor(SessionState.DISCONNECTED);
+    const first = factory.callCount;
+    status      = 'ok';
+    await waitFor(SessionState.CONNECTED);
+    expect(factory.callCount).to.be.gt(first);
+    expect(closed).to.be.gt(0);
+    expect(states).to.include.members([SessionState.LOCKED, SessionState.APP_CLOSED, SessionState.DISCONNECTED]);
+  });
+
+  it('should consider unresponsive devices disconnected', async () => {
+    await session.open();
+    status = 'unresponsive';
+    await waitFor(SessionState.DISCONNECTED);
+    const first = factory.callCount;
+    await new Promise((r) => setTimeout(r, 50));
+    expect(session.state).to.be.eq(SessionState.DISCONNECTED);
+    expect(factory.callCount).to.be.gt(first);
+    status = 'ok';
+    await waitFor(SessionState.CONNECTED);
+    expect(closed).to.be.gt(0);
+  });
+
+  it('should replay commands failed because of the device', async () => {
+    await session.open();
+    const old = session.ledger;
+    status    = 'unplugged';
+    const res = session.run((ledger) => ledger.getPubKey(account));
+    await waitFor(SessionState.DISCONNECTED);
+    status = 'ok';
+    expect((await res).address).to.match(/D$/);
+    expect(session.ledger).to.not.be.eq(old);
+  });
+
+  it('should not replay commands failing for other reasons', async () => {
+    await session.open();
+    confirm  = false;
+    const fn = sinon.spy((ledger) => ledger.signMSG(account, 'hey'));
+    await expect(session.run(fn)).to.be.rejectedWith(UserRejectedError);
+    expect(fn.calledOnce).to.be.true;
+    expect(session.state).to.be.eq(SessionState.CONNECTED);
+  });
+
+  it('should rethrow local failures without reconnecting', async () => {
+    await session.open();
+    const fn = sinon.spy((ledger) => ledger.getPubKey(Buffer.alloc(3)));
+    await expect(session.run(fn)).to.be.rejectedWith(InvalidPathError);
+    await expect(session.run(() => Promise.reject(new TypeError('meow')))).to.be.rejectedWith(TypeError);
+    expect(fn.calledOnce).to.be.true;
+    expect(factory.calledOnce).to.be.true;
+    expect(session.state).to.be.eq(SessionState.CONNECTED);
+  });
+
+  it('should pause health checks while the device is stalled', async () => {
+    let release: (v: boolean) => void;
+    confirm   = new Promise<boolean>((r) => release = r);
+    const dl  = await session.open();
+    const err = await session.run((l) => l.signMSG(account, 'hey', { confirmationTimeout: 5 })).catch((e) => e);
+    expect(err).to.be.instanceOf(OperationTimeoutError);
+    expect(session.stalled).to.be.true;
+    const ping = sinon.spy(dl, 'ping');
+    await new Promise((r) => setTimeout(r, 50));
+    expect(ping.called).to.be.false;
+    expect(session.state).to.be.eq(SessionState.CONNECTED);
+
+    release(true);
+    await new Promise((r) => setTimeout(r, 5));
+    expect(session.stalled).to.be.false;
+    await new Promise((r) => setTimeout(r, 20));
+    expect(ping.called).to.be.true;
+  });
+
+  it('should stop waiting when aborted or closed', async () => {
+    status           = 'unplugged';
+    const controller = new CancellationController();
+    const aborted    = session.run((ledger) => ledger.ping(), controller.signal);
+    const pending    = session.run((ledger) => ledger.ping());
+    controller.abort();
+    await expect(aborted).to.be.rejectedWith(OperationCancelledError);
+    await session.close();
+    await expect(pending).to.be.rejectedWith(SessionClosedError);
+    await expect(session.open()).to.be.rejectedWith(SessionClosedError);
+    expect(session.state).to.be.eq(SessionState.CLOSED);
+  });
+});
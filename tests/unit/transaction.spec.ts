@@ -0,0 +1,239 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import * as sinon from 'sinon';
+import { CreateSignatureTx, DelegateTx, MultiSignatureTx, SendTx, VoteTx } from 'dpos-offline';
+import {
+  CommHandler,
+  DposLedger,
+  InvalidTransactionError,
+  LedgerAccount,
+  LedgerEmulator,
+  serializeTransaction,
+  Transaction,
+  transactionId,
+  toNodeTransaction,
+  TransactionType,
+  verifyTransactionSignature,
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('transaction', () => {
+  const pubKey    = 'a305a6d48c50f2a74d6ec0d79e2d7a372a155ae8e736a8ac7b42de915e331acb';
+  const signature = 'e96c66573a67214867025fd478cadd363c0d558ef6d3e071dba4abfcb6cd01ab' +
+    'fb78814544137191ac70fe4e44dcf922d638c7d963ce08ccd1acdc5f9113cf01';
+  const base      = {
+    amount         : 0,
+    fee            : 100,
+    recipientId    : '15610359283786884938L',
+    senderPublicKey: pubKey,
+    timestamp      : 10,
+  };
+
+  describe('serializeTransaction', () => {
+    it('should match dpos-offline for send txs', () => {
+      const tx = new SendTx().set('amount', 851000000).set('timestamp', 10).set('fee', 100)
+        .set('recipientId', '15610359283786884938L').set('senderPublicKey', pubKey);
+      expect(serializeTransaction({ ...base, amount: 851000000, asset: {}, type: TransactionType.SEND }))
+        .to.be.deep.eq(tx.getBytes());
+    });
+    it('should match dpos-offline for send txs with data', () => {
+      const tx = new SendTx({ data: 'hey brotha :)' }).set('amount', 1).set('timestamp', 10).set('fee', 100)
+        .set('recipientId', '15610359283786884938L').set('senderPublicKey', pubKey);
+      expect(serializeTransaction({ ...base, amount: 1, asset: { data: 'hey brotha :)' }, type: TransactionType.SEND }))
+        .to.be.deep.eq(tx.getBytes());
+    });
+    it('should match dpos-offline for amounts over 32 bits', () => {
+      const tx = new SendTx().set('amount', 9007199254740991).set('timestamp', 10).set('fee', 100)
+        .set('recipientId', '15610359283786884938L').set('senderPublicKey', pubKey);
+      expect(serializeTransaction({ ...base, amount: 9007199254740991, asset: {}, type: TransactionType.SEND }))
+        .to.be.deep.eq(tx.getBytes());
+    });
+    it('should match dpos-offline for vote txs with requester, signature and signSignature', () => {
+      const tx           = new VoteTx({ votes: [`+${pubKey}`, '-b'] }).set('timestamp', 10).set('fee', 100)
+        .set('recipientId', '15610359283786884938L').set('senderPublicKey', pubKey)
+        .set('requesterPublicKey', pubKey);
+      tx.signature       = signature;
+      tx.secondSignature = signature;
+      expect(serializeTransaction({
+        ...base,
+        asset             : { votes: [`+${pubKey}`, '-b'] },
+        requesterPublicKey: pubKey,
+        signSignature     : signature,
+        signature,
+        type              : TransactionType.VOTE,
+      })).to.be.deep.eq(tx.getBytes());
+    });
+    it('should match dpos-offline for delegate txs', () => {
+      const tx = new DelegateTx({ delegate: { username: 'vekexasia', publicKey: pubKey } }).set('timestamp', 10)
+        .set('fee', 100).set('recipientId', '15610359283786884938L').set('senderPublicKey', pubKey);
+      expect(serializeTransaction({
+        ...base,
+        asset: { delegate: { username: 'vekexasia', publicKey: pubKey } },
+        type : TransactionType.DELEGATE,
+      })).to.be.deep.eq(tx.getBytes());
+    });
+    it('should match dpos-offline for second signature txs', () => {
+      const tx = new CreateSignatureTx({ signature: { publicKey: pubKey } }).set('timestamp', 10)
+        .set('fee', 100).set('recipientId', '15610359283786884938L').set('senderPublicKey', pubKey);
+      expect(serializeTransaction({
+        ...base,
+        asset: { signature: { publicKey: pubKey } },
+        type : TransactionType.SECOND_SIGNATURE,
+      })).to.be.deep.eq(tx.getBytes());
+    });
+    it('should match dpos-offline for multisignature txs', () => {
+      const multisignature = { min: 3, lifetime: 24, keysgroup: [`+${pubKey}`, `+${pubKey}`] };
+      const tx             = new MultiSignatureTx({ multisignature }).set('timestamp', 10)
+        .set('fee', 100).set('recipientId', '15610359283786884938L').set('senderPublicKey', pubKey);
+      expect(serializeTransaction({ ...base, asset: { multisignature }, type: TransactionType.MULTISIGNATURE }))
+        .to.be.deep.eq(tx.getBytes());
+    });
+    it('should write zeros if recipientId is missing', () => {
+      const bytes = serializeTransaction({ ...base, recipientId: undefined, asset: {}, type: TransactionType.SEND });
+      expect(bytes.slice(37, 45)).to.be.deep.eq(Buffer.alloc(8));
+    });
+    it('should honor skipSignature and skipSignSignature', () => {
+      const tx: Transaction = { ...base, asset: {}, type: TransactionType.SEND, signature, signSignature: signature };
+      const full            = serializeTransaction(tx);
+      expect(serializeTransaction(tx, { skipSignSignature: true })).to.be.deep.eq(full.slice(0, full.length - 64));
+      expect(serializeTransaction(tx, { skipSignature: true })).to.be.deep.eq(full.slice(0, full.length - 128));
+    });
+
+    describe('failures', () => {
+      const failures: Array<[string, any]> = [
+        ['Invalid recipientId', { ...base, asset: {}, recipientId: 'abc', type: TransactionType.SEND }],
+        ['Invalid recipientId', { ...base, asset: {}, recipientId: '18446744073709551616L', type: 0 }],
+        ['senderPublicKey must be', { ...base, asset: {}, senderPublicKey: 'aa', type: TransactionType.SEND }],
+        ['Invalid amount', { ...base, amount: -1, asset: {}, type: TransactionType.SEND }],
+        ['Invalid timestamp', { ...base, asset: {}, timestamp: 1.5, type: TransactionType.SEND }],
+        ['Unknown transaction type', { ...base, asset: {}, type: 11 }],
+        ['Missing votes', { ...base, asset: {}, type: TransactionType.VOTE }],
+      ];
+      for (const [message, tx] of failures) {
+        it(`should throw ${message}`, () => {
+          expect(() => serializeTransaction(tx)).to.throw(InvalidTransactionError, message);
+        });
+      }
+    });
+  });
+
+  describe('transactionId', () => {
+    it('should match dpos-offline', () => {
+      const tx           = new VoteTx({ votes: [`+${pubKey}`] }).set('timestamp', 10).set('fee', 100)
+        .set('recipientId', '15610359283786884938L').set('senderPublicKey', pubKey);
+      tx.signature       = signature;
+      tx.secondSignature = signature;
+      expect(transactionId({
+        ...base,
+        asset        : { votes: [`+${pubKey}`] },
+        signSignature: signature,
+        signature,
+        type         : TransactionType.VOTE,
+      })).to.be.eq(tx.calcId());
+    });
+  });
+
+  describe('toNodeTransaction', () => {
+    const signed = {
+      ...base,
+      amount   : 100,
+      asset    : {},
+      id       : '123',
+      signature,
+      type     : TransactionType.SEND as TransactionType.SEND,
+    };
+    it('should encode amounts as strings by default', () => {
+      expect(toNodeTransaction(signed)).to.be.deep.eq({
+        amount         : '100',
+        asset          : {},
+        fee            : '100',
+        id             : '123',
+        recipientId    : '15610359283786884938L',
+        senderPublicKey: pubKey,
+        signature,
+        timestamp      : 10,
+        type           : TransactionType.SEND,
+      });
+    });
+    it('should keep numbers and optional fields', () => {
+      const json = toNodeTransaction({
+        ...signed,
+        recipientId       : undefined,
+        requesterPublicKey: pubKey,
+        signSignature     : signature,
+        signatures        : [signature],
+      }, { stringAmounts: false });
+      expect(json.amount).to.be.eq(100);
+      expect(json.recipientId).to.be.null;
+      expect(json.requesterPublicKey).to.be.eq(pubKey);
+      expect(json.signSignature).to.be.eq(signature);
+      expect(json.signatures).to.be.deep.eq([signature]);
+    });
+  });
+
+  describe('DposLedger.signTransaction', () => {
+    it('should return the signed transaction with its id', async () => {
+      const account         = new LedgerAccount();
+      const dl              = new DposLedger(new CommHandler(new LedgerEmulator(Buffer.alloc(32).fill(3))));
+      const { publicKey }   = await dl.getPubKey(account);
+      const tx: Transaction = { ...base, asset: {}, senderPublicKey: publicKey, signature, type: TransactionType.SEND };
+      const signed          = await dl.signTransaction(account, tx);
+      expect(signed.signature).to.not.be.eq(signature);
+      expect(verifyTransactionSignature(signed, signed.signature, publicKey, { skipSignature: true })).to.be.true;
+      expect(signed.id).to.be.eq(transactionId(signed));
+      expect(signed.recipientId).to.be.eq(tx.recipientId);
+    });
+    it('should reject (not throw) when the transaction cannot be serialized', async () => {
+      const dl      = new DposLedger(new CommHandler(new LedgerEmulator(Buffer.alloc(32).fill(3))));
+      const tx: any = { ...base, asset: {}, type: 11 };
+      let result: Promise<Buffer>;
+      expect(() => result = dl.signTX(new LedgerAccount(), tx)).to.not.throw();
+      await expect(result).to.be.rejectedWith(InvalidTransactionError, 'Unknown transaction type');
+    });
+  });
+
+  describe('DposLedger.signTXWithSecondSignature', () => {
+    const first  = new LedgerAccount();
+    const second = new LedgerAccount().account(1);
+    let dl: DposLedger;
+    let tx: Transaction;
+    let keys: string[];
+    beforeEach(async () => {
+      dl   = new DposLedger(new CommHandler(new LedgerEmulator(Buffer.alloc(32).fill(3))));
+      keys = [(await dl.getPubKey(first)).publicKey, (await dl.getPubKey(second)).publicKey];
+      tx   = { ...base, asset: {}, senderPublicKey: keys[0], signSignature: signature, type: TransactionType.SEND };
+    });
+
+    it('should sign with both accounts and compute the id', async () => {
+      const signed = await dl.signTXWithSecondSignature(first, second, tx);
+      expect(verifyTransactionSignature(signed, signed.signature, keys[0], { skipSignature: true })).to.be.true;
+      expect(verifyTransactionSignature(signed, signed.signSignature, keys[1], { skipSignSignature: true }))
+        .to.be.true;
+      expect(signed.id).to.be.eq(transactionId(signed));
+      expect(tx.signSignature).to.be.eq(signature);
+    });
+
+    it('should accept a signer function', async () => {
+      const signer = sinon.stub().resolves(signature);
+      const signed = await dl.signTXWithSecondSignature(first, signer, tx);
+      const bytes  = serializeTransaction({ ...signed, signSignature: undefined });
+      expect(signer.firstCall.args[0]).to.be.deep.eq(bytes);
+      expect(signed.signSignature).to.be.eq(signature);
+
+      await expect(dl.signTXWithSecondSignature(first, () => 'meow', tx))
+        .to.be.rejectedWith(InvalidTransactionError);
+    });
+  });
+
+  describe('DposLedger.signTX', () => {
+    it('should serialize transaction objects', async () => {
+      const exchange = sinon.stub().resolves([Buffer.alloc(64)]);
+      const dl       = new DposLedger({ exchange } as any);
+      const tx: Transaction = { ...base, asset: {}, type: TransactionType.SEND };
+      await dl.signTX(new LedgerAccount(), tx);
+      expect(exchange.firstCall.args[0][5]).to.be.deep.eq(serializeTransaction(tx));
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import { sha256 } from 'js-sha256';
+import { encode as encodeVarInt } from 'varuint-bitcoin';
+import {
+  CommHandler,
+  DposLedger,
+  LedgerAccount,
+  LedgerEmulator,
+  messageSignablePayload,
+  serializeTransaction,
+  Transaction,
+  TransactionType,
+  verifyMessageSignature,
+  verifyTransactionSignature,
+} from '../../src';
+
+describe('verify', () => {
+  const account = new LedgerAccount();
+  let dl: DposLedger;
+  let publicKey: string;
+  beforeEach(async () => {
+    dl        = new DposLedger(new CommHandler(new LedgerEmulator(Buffer.alloc(32).fill(2))));
+    publicKey = (await dl.getPubKey(account)).publicKey;
+  });
+
+  describe('messageSignablePayload', () => {
+    it('should match the prefixed double sha256 payload', () => {
+      const prefix = new Buffer('dPoS Signed Message:\n', 'utf8');
+      const msg    = new Buffer(new Array(300).fill('a').join(''), 'utf8');
+      const first  = new Buffer(sha256(Buffer.concat([encodeVarInt(prefix.length), prefix, encodeVarInt(msg.length), msg])), 'hex');
+      expect(messageSignablePayload(msg).toString('hex')).to.be.eq(sha256(first));
+    });
+    it('should treat strings as utf8', () => {
+      expect(messageSignablePayload('hey\nhi')).to.be.deep.eq(messageSignablePayload(new Buffer('hey\nhi', 'utf8')));
+    });
+  });
+
+  describe('verifyMessageSignature', () => {
+    it('should verify string messages', async () => {
+      const signature = await dl.signMSG(account, 'vekexasia rules');
+      expect(verifyMessageSignature('vekexasia rules', signature, publicKey)).is.true;
+      expect(verifyMessageSignature('vekexasia rules', signature.toString('hex'), new Buffer(publicKey, 'hex')))
+        .is.true;
+    });
+    it('should verify binary messages', async () => {
+      const msg       = new Buffer('00616263', 'hex');
+      const signature = await dl.signMSG(account, msg);
+      expect(verifyMessageSignature(msg, signature, publicKey)).is.true;
+    });
+    it('should fail for different message, key or malformed input', async () => {
+      const signature = await dl.signMSG(account, 'vekexasia rules');
+      const other     = (await dl.getPubKey(new LedgerAccount().account(1))).publicKey;
+      expect(verifyMessageSignature('vekexasia rulez', signature, publicKey)).is.false;
+      expect(verifyMessageSignature('vekexasia rules', signature, other)).is.false;
+      expect(verifyMessageSignature('vekexasia rules', signature.slice(1), publicKey)).is.false;
+      expect(verifyMessageSignature('vekexasia rules', signature, 'zz')).is.false;
+    });
+  });
+
+  describe('verifyTransactionSignature', () => {
+    let tx: Transaction;
+    beforeEach(() => {
+      tx = {
+        amount         : 100,
+        asset          : {},
+        fee            : 10,
+        recipientId    : '123L',
+        senderPublicKey: publicKey,
+        timestamp      : 10,
+        type           : TransactionType.SEND,
+      };
+    });
+    it('should verify signatures over bytes and objects', async () => {
+      const signature = await dl.signTX(account, tx);
+      expect(verifyTransactionSignature(serializeTransaction(tx), signature, publicKey)).is.true;
+      expect(verifyTransactionSignature(tx, signature, publicKey)).is.true;
+    });
+    it('should verify primary signature of a signed transaction using skipSignature', async () => {
+      const signature = await dl.signTX(account, tx);
+      tx.signature    = signature.toString('hex');
+      expect(verifyTransactionSignature(tx, signature, publicKey)).is.false;
+      expect(verifyTransactionSignature(tx, signature, publicKey, { skipSignature: true })).is.true;
+    });
+  });
+});
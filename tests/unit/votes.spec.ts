@@ -0,0 +1,95 @@
+import * as chai from 'chai';
+import { expect } from 'chai';
+import * as chaiAsPromised from 'chai-as-promised';
+import {
+  CommHandler,
+  deriveAddress,
+  diffVotes,
+  DposLedger,
+  InvalidTransactionError,
+  IVoteTransaction,
+  LedgerAccount,
+  LedgerEmulator,
+  LimitExceededError,
+  planVotes,
+  signVotes,
+  SupportedCoin,
+  verifyTransactionSignature
+} from '../../src';
+
+chai.use(chaiAsPromised);
+
+describe('votes', () => {
+  const keys = new Array(60).fill(null).map((_, i) => `0${i.toString(16)}`.slice(-2).repeat(32));
+
+  describe('diffVotes', () => {
+    it('should compute additions and removals ignoring duplicates and case', () => {
+      expect(diffVotes([keys[0], keys[1], keys[1]], [keys[1].toUpperCase(), keys[2], keys[2]])).to.be.deep.eq({
+        added  : [keys[2]],
+        removed: [keys[0]],
+      });
+    });
+    it('should validate publicKeys', () => {
+      expect(() => diffVotes(['meow'], [])).to.throw(InvalidTransactionError);
+      expect(() => diffVotes(null, [])).to.throw(InvalidTransactionError);
+    });
+  });
+
+  describe('planVotes', () => {
+    it('should split 25 additions and 8 removals in a single transaction', () => {
+      const plan = planVotes(keys.slice(0, 8), keys.slice(8, 33));
+      expect(plan.length).to.be.eq(1);
+      expect(plan[0].length).to.be.eq(33);
+      expect(plan[0].slice(0, 8)).to.be.deep.eq(keys.slice(0, 8).map((k) => `-${k}`));
+    });
+    it('should use the minimum number of transactions putting removals first', () => {
+      const plan = planVotes(keys.slice(0, 20), keys.slice(20, 60), { maxVotesPerTransaction: 25 });
+      expect(plan.map((votes) => votes.length)).to.be.deep.eq([25, 25, 10]);
+      expect(plan[0].filter((v) => v[0] === '-').length).to.be.eq(20);
+      expect(plan[0].slice(0, 20).every((v) => v[0] === '-')).to.be.true;
+      expect(plan[2].every((v) => v[0] === '+')).to.be.true;
+    });
+    it('should return an empty plan when nothing changes', () => {
+      expect(planVotes(keys.slice(0, 3), keys.slice(0, 3).reverse())).to.be.deep.eq([]);
+    });
+    it('should enforce maxVotes', () => {
+      expect(() => planVotes([], keys, { maxVotes: 59 })).to.throw(LimitExceededError);
+      expect(() => planVotes([], keys, { maxVotesPerTransaction: 0 })).to.throw();
+    });
+  });
+
+  describe('signVotes', () => {
+    const account = new LedgerAccount();
+    let dl: DposLedger;
+    let publicKey: string;
+    beforeEach(async () => {
+      dl        = new DposLedger(new CommHandler(new LedgerEmulator(Buffer.alloc(32).fill(8))));
+      publicKey = (await dl.getPubKey(account)).publicKey;
+    });
+
+    it('should sign every vote transaction', async () => {
+      const results = await signVotes(dl, account, keys.slice(0, 10), keys.slice(5, 40), { fee: 100000000 });
+      expect(results.map((r) => r.status)).to.be.deep.eq(['signed', 'signed']);
+      const txs = results.map((r) => r.transaction as IVoteTransaction & { signature: string });
+      expect(txs.map((tx) => tx.asset.votes.length)).to.be.deep.eq([33, 2]);
+      for (const tx of txs) {
+        // the multi coin app reports D addresses, recipientId must be the Lisk one.
+        expect(tx.recipientId).to.be.eq(deriveAddress(publicKey, SupportedCoin.LISK));
+        expect(tx.senderPublicKey).to.be.eq(publicKey);
+        expect(tx.timestamp).to.be.eq(txs[0].timestamp).and.to.be.gt(0);
+        expect(verifyTransactionSignature(tx, tx.signature, publicKey, { skipSignature: true })).to.be.true;
+      }
+    });
+
+    it('should refuse accounts of unregistered coins', async () => {
+      await expect(signVotes(dl, new LedgerAccount().coinIndex(999), [], keys.slice(0, 2), { fee: 1 }))
+        .to.be.rejectedWith(InvalidTransactionError, 'not registered');
+    });
+
+    it('should not contact the device when nothing changes', async () => {
+      expect(await signVotes(dl, account, keys.slice(0, 2), keys.slice(0, 2), { fee: 1 })).to.be.deep.eq([]);
+      await expect(signVotes(dl, account, [], keys.slice(0, 2), { fee: -1 }))
+        .to.be.rejectedWith(InvalidTransactionError, 'Invalid fee');
+    });
+  });
+});